@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { createAnthropicStream, fromAnthropicRequest } from "./anthropic.js";
+
+/** Feed chat completions SSE lines through the translator and parse what comes out. */
+async function translate(lines: string[]): Promise<{ event: string; data: any }[]> {
+  const stream = createAnthropicStream("anthropic/claude-sonnet-4.6");
+  let out = "";
+  stream.on("data", (chunk: Buffer) => (out += chunk.toString()));
+  const done = new Promise((resolve) => stream.on("end", resolve));
+  for (const line of lines) stream.write(`${line}\n\n`);
+  stream.end();
+  await done;
+  return out
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return { event: eventLine.slice("event: ".length), data: JSON.parse(dataLine.slice(6)) };
+    });
+}
+
+const chunk = (data: Record<string, unknown>) => `data: ${JSON.stringify(data)}`;
+const delta = (d: Record<string, unknown>, finish_reason: string | null = null) =>
+  chunk({ id: "chatcmpl-1", choices: [{ index: 0, delta: d, finish_reason }] });
+
+describe("createAnthropicStream", () => {
+  it("translates a text completion into the Messages event sequence", async () => {
+    const events = await translate([
+      delta({ role: "assistant", content: "Hel" }),
+      delta({ content: "lo" }),
+      delta({}, "stop"),
+      chunk({ id: "chatcmpl-1", choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } }),
+      "data: [DONE]",
+    ]);
+
+    expect(events.map((e) => e.event)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect(events[0].data.message.id).toBe("msg_1");
+    const text = events
+      .filter((e) => e.event === "content_block_delta")
+      .map((e) => e.data.delta.text)
+      .join("");
+    expect(text).toBe("Hello");
+    expect(events[5].data.delta.stop_reason).toBe("end_turn");
+    expect(events[5].data.usage).toEqual({ input_tokens: 5, output_tokens: 2 });
+  });
+
+  it("opens a tool_use block per tool call", async () => {
+    const events = await translate([
+      delta({
+        tool_calls: [
+          { index: 0, id: "call_1", function: { name: "get_weather", arguments: '{"ci' } },
+        ],
+      }),
+      delta({ tool_calls: [{ index: 0, function: { arguments: 'ty":"Oslo"}' } }] }),
+      delta({}, "tool_calls"),
+      "data: [DONE]",
+    ]);
+
+    const startEvent = events.find((e) => e.event === "content_block_start")!;
+    expect(startEvent.data.content_block).toMatchObject({
+      type: "tool_use",
+      id: "call_1",
+      name: "get_weather",
+    });
+    const json = events
+      .filter((e) => e.event === "content_block_delta")
+      .map((e) => e.data.delta.partial_json)
+      .join("");
+    expect(JSON.parse(json)).toEqual({ city: "Oslo" });
+    const messageDelta = events.find((e) => e.event === "message_delta")!;
+    expect(messageDelta.data.delta.stop_reason).toBe("tool_use");
+  });
+
+  it("finishes a stream that has a finish_reason but no [DONE]", async () => {
+    const events = await translate([delta({ content: "Hi" }), delta({}, "length")]);
+
+    expect(events.at(-1)!.event).toBe("message_stop");
+    const messageDelta = events.find((e) => e.event === "message_delta")!;
+    expect(messageDelta.data.delta.stop_reason).toBe("max_tokens");
+  });
+
+  it("reports a truncated stream as an error instead of a clean stop", async () => {
+    const events = await translate([delta({ content: "Partial ans" })]);
+
+    expect(events.map((e) => e.event)).not.toContain("message_stop");
+    expect(events.at(-1)).toEqual({
+      event: "error",
+      data: {
+        type: "error",
+        error: {
+          type: "api_error",
+          message: "Upstream stream ended before the response was complete",
+        },
+      },
+    });
+  });
+
+  it("turns an upstream error chunk into an error event and ignores what follows", async () => {
+    const events = await translate([
+      delta({ content: "Hi" }),
+      chunk({ error: { code: 429, message: "Rate limited" } }),
+      delta({ content: " there" }),
+      "data: [DONE]",
+    ]);
+
+    const last = events.at(-1)!;
+    expect(last.event).toBe("error");
+    expect(last.data.error).toEqual({ type: "rate_limit_error", message: "Rate limited" });
+    expect(events.filter((e) => e.event === "content_block_delta")).toHaveLength(1);
+  });
+});
+
+describe("fromAnthropicRequest", () => {
+  it("converts system, messages and max_tokens to chat completions", () => {
+    const body = fromAnthropicRequest({
+      model: "auto",
+      max_tokens: 256,
+      system: "Be brief.",
+      messages: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+    });
+
+    expect(body).toMatchObject({
+      model: "auto",
+      max_tokens: 256,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+    });
+  });
+});
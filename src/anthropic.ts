@@ -0,0 +1,472 @@
+/**
+ * Anthropic Messages API Translation
+ *
+ * Lets Anthropic SDK clients use the proxy: POST /v1/messages requests are
+ * translated to chat completions (which every upstream speaks), routed like
+ * any other request, and the responses are translated back, including the
+ * streaming event sequence:
+ *
+ *   message_start → (content_block_start → content_block_delta* →
+ *   content_block_stop)* → message_delta → message_stop
+ *
+ * Extended thinking output is not translated back; prompt-caching markers
+ * are dropped.
+ */
+
+import { randomUUID } from "node:crypto";
+import { Transform, type TransformCallback } from "node:stream";
+import { SseParser, chunkError, parseSseJson } from "./sse.js";
+import { getCatalogModels, isCatalogModel, resolveModelAlias } from "./models.js";
+
+type AnthropicBlock = {
+  type: string;
+  text?: string;
+  source?: { type: string; media_type?: string; data?: string; url?: string };
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | AnthropicBlock[];
+  is_error?: boolean;
+};
+
+type AnthropicMessage = { role: "user" | "assistant"; content: string | AnthropicBlock[] };
+
+type AnthropicTool = { name: string; description?: string; input_schema?: unknown };
+
+type OpenAIToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+/** Chat completions finish_reason → Messages stop_reason. */
+const STOP_REASONS: Record<string, string> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  function_call: "tool_use",
+  content_filter: "refusal",
+};
+
+/**
+ * Map a native Anthropic model ID ("claude-sonnet-4-5", optionally with a
+ * "-20250929" snapshot date or "-latest") to its OpenRouter ID, which may
+ * spell versions with dots ("claude-3.5-sonnet"). Other IDs (router
+ * profiles, aliases) pass through.
+ *
+ * @throws Error naming the supported Claude IDs when the catalog has no match
+ */
+function toRouterModelId(model: string): string {
+  if (!model.startsWith("claude-") || resolveModelAlias(model) !== model) return model;
+  const base = model.replace(/-(\d{8}|latest)$/, "");
+  const dotted = base.replace(/(\d)-(\d)(?=-|$)/g, "$1.$2");
+  const match = [model, base, dotted].map((id) => `anthropic/${id}`).find(isCatalogModel);
+  if (match) return match;
+  const supported = getCatalogModels()
+    .filter((m) => m.id.startsWith("anthropic/claude-"))
+    .map((m) => m.id.slice("anthropic/".length).replace(/(\d)\.(\d)/g, "$1-$2"));
+  throw new Error(
+    `Model "${model}" is not available; supported Claude models: ${supported.join(", ")}`,
+  );
+}
+
+/** Text of a string or block-array content, joining text blocks. */
+function blocksText(content: string | AnthropicBlock[] | undefined): string {
+  if (typeof content === "string") return content;
+  return (content ?? [])
+    .filter((b) => b.type === "text" && typeof b.text === "string")
+    .map((b) => b.text)
+    .join("\n");
+}
+
+/** Convert a user content block to a chat completions content part. */
+function toContentPart(block: AnthropicBlock): Record<string, unknown> | undefined {
+  const { source } = block;
+  switch (block.type) {
+    case "text":
+      return { type: "text", text: block.text ?? "" };
+    case "image": {
+      const url =
+        source?.type === "url" ? source.url : `data:${source?.media_type};base64,${source?.data}`;
+      return { type: "image_url", image_url: { url } };
+    }
+    case "document":
+      if (source?.type === "text") return { type: "text", text: source.data ?? "" };
+      if (source?.type === "base64") {
+        const fileData = `data:${source.media_type};base64,${source.data}`;
+        return { type: "file", file: { filename: "document.pdf", file_data: fileData } };
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/** Convert one Messages API turn into one or more chat completions messages. */
+function toChatMessages(message: AnthropicMessage): Record<string, unknown>[] {
+  if (typeof message.content === "string") {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  if (message.role === "assistant") {
+    const toolCalls: OpenAIToolCall[] = message.content
+      .filter((b) => b.type === "tool_use")
+      .map((b) => ({
+        id: b.id ?? "",
+        type: "function",
+        function: { name: b.name ?? "", arguments: JSON.stringify(b.input ?? {}) },
+      }));
+    const text = blocksText(message.content);
+    return [
+      {
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+    ];
+  }
+
+  // Tool results become tool messages, which must directly follow the assistant turn
+  const out: Record<string, unknown>[] = message.content
+    .filter((b) => b.type === "tool_result")
+    .map((b) => ({
+      role: "tool",
+      tool_call_id: b.tool_use_id ?? "",
+      content: b.is_error ? `Error: ${blocksText(b.content)}` : blocksText(b.content),
+    }));
+  const parts = message.content
+    .map(toContentPart)
+    .filter((p): p is Record<string, unknown> => p !== undefined);
+  if (parts.length > 0) {
+    const textOnly = parts.every((p) => p.type === "text");
+    out.push({
+      role: "user",
+      content: textOnly ? parts.map((p) => p.text).join("\n") : parts,
+    });
+  }
+  return out;
+}
+
+/** Messages API tool_choice → chat completions tool_choice. */
+function toToolChoice(choice: { type?: string; name?: string } | undefined): unknown {
+  switch (choice?.type) {
+    case "any":
+      return "required";
+    case "tool":
+      return { type: "function", function: { name: choice.name } };
+    case "none":
+      return "none";
+    case "auto":
+      return "auto";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Check that content is a string or an array of typed blocks (recursing
+ * into tool results).
+ *
+ * @throws Error naming the first invalid value
+ */
+function validateContent(content: unknown, path: string): void {
+  if (typeof content === "string") return;
+  if (!Array.isArray(content)) {
+    throw new Error(`${path}: must be a string or an array of content blocks`);
+  }
+  content.forEach((block: unknown, i) => {
+    const b = block as AnthropicBlock | null;
+    if (typeof b !== "object" || b === null || typeof b.type !== "string") {
+      throw new Error(`${path}[${i}]: must be a content block object with a type`);
+    }
+    if (b.type === "tool_result" && b.content !== undefined) {
+      validateContent(b.content, `${path}[${i}].content`);
+    }
+  });
+}
+
+/**
+ * Check the parts of a Messages API body the translation reads.
+ *
+ * @throws Error naming the first invalid field
+ */
+function validateRequest(body: Record<string, unknown>): void {
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    throw new Error("messages is required and must be a non-empty array");
+  }
+  body.messages.forEach((message: unknown, i) => {
+    const m = message as AnthropicMessage | null;
+    if (typeof m !== "object" || m === null || (m.role !== "user" && m.role !== "assistant")) {
+      throw new Error(`messages[${i}]: must be an object with role "user" or "assistant"`);
+    }
+    validateContent(m.content, `messages[${i}].content`);
+  });
+  if (body.system !== undefined) validateContent(body.system, "system");
+  if (body.tools !== undefined) {
+    if (!Array.isArray(body.tools)) throw new Error("tools: must be an array");
+    body.tools.forEach((tool: unknown, i) => {
+      if (typeof (tool as AnthropicTool | null)?.name !== "string") {
+        throw new Error(`tools[${i}]: must be an object with a name`);
+      }
+    });
+  }
+}
+
+/**
+ * Translate a Messages API request body into a chat completions body.
+ *
+ * @throws Error when messages is missing or empty, content is malformed or a
+ *   Claude model ID has no catalog match
+ */
+export function fromAnthropicRequest(body: Record<string, unknown>): Record<string, unknown> {
+  validateRequest(body);
+  const messages: Record<string, unknown>[] = [];
+  const system = body.system as string | AnthropicBlock[] | undefined;
+  if (system !== undefined) {
+    const text = blocksText(system);
+    if (text) messages.push({ role: "system", content: text });
+  }
+  for (const m of body.messages as AnthropicMessage[]) messages.push(...toChatMessages(m));
+
+  const out: Record<string, unknown> = {
+    model: toRouterModelId(String(body.model ?? "auto")),
+    messages,
+  };
+  if (body.max_tokens !== undefined) out.max_tokens = body.max_tokens;
+  for (const key of ["temperature", "top_p", "top_k"]) {
+    if (body[key] !== undefined) out[key] = body[key];
+  }
+  if (Array.isArray(body.stop_sequences)) out.stop = body.stop_sequences;
+  if (body.stream === true) out.stream = true;
+  if (Array.isArray(body.tools) && body.tools.length > 0) {
+    out.tools = (body.tools as AnthropicTool[]).map((t) => ({
+      type: "function",
+      function: { name: t.name, description: t.description, parameters: t.input_schema },
+    }));
+  }
+  const toolChoice = toToolChoice(body.tool_choice as { type?: string; name?: string });
+  if (toolChoice !== undefined) out.tool_choice = toolChoice;
+  const thinking = body.thinking as { type?: string; budget_tokens?: number } | undefined;
+  if (thinking?.type === "enabled") {
+    out.reasoning = { max_tokens: thinking.budget_tokens };
+  }
+  const userId = (body.metadata as { user_id?: string } | undefined)?.user_id;
+  if (userId) out.user = userId;
+  return out;
+}
+
+/** Messages API usage block from a chat completions usage block. */
+function toUsage(usage: unknown): { input_tokens: number; output_tokens: number } {
+  const u = (usage ?? {}) as { prompt_tokens?: number; completion_tokens?: number };
+  return { input_tokens: u.prompt_tokens ?? 0, output_tokens: u.completion_tokens ?? 0 };
+}
+
+function parseToolInput(args: string | undefined): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Translate a non-streaming chat completions response into a Messages API
+ * response.
+ *
+ * @param model - Model ID to report (the one that served the request)
+ */
+export function toAnthropicMessage(
+  completion: Record<string, unknown>,
+  model: string,
+): Record<string, unknown> {
+  const choice = ((completion.choices as unknown[]) ?? [])[0] as
+    | {
+        message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+        finish_reason?: string;
+      }
+    | undefined;
+  const content: Record<string, unknown>[] = [];
+  if (choice?.message?.content) {
+    content.push({ type: "text", text: choice.message.content });
+  }
+  for (const call of choice?.message?.tool_calls ?? []) {
+    content.push({
+      type: "tool_use",
+      id: call.id,
+      name: call.function.name,
+      input: parseToolInput(call.function.arguments),
+    });
+  }
+  return {
+    id: `msg_${String(completion.id ?? randomUUID()).replace(/^chatcmpl-/, "")}`,
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    stop_reason: STOP_REASONS[choice?.finish_reason ?? "stop"] ?? "end_turn",
+    stop_sequence: null,
+    usage: toUsage(completion.usage),
+  };
+}
+
+/** Messages API error `type` for an HTTP status. */
+export function anthropicErrorType(status: number): string {
+  if (status === 401) return "authentication_error";
+  if (status === 402) return "billing_error";
+  if (status === 403) return "permission_error";
+  if (status === 404) return "not_found_error";
+  if (status === 413) return "request_too_large";
+  if (status === 429) return "rate_limit_error";
+  if (status === 529 || status === 503) return "overloaded_error";
+  return status < 500 ? "invalid_request_error" : "api_error";
+}
+
+/** Messages API error body. */
+export function anthropicError(status: number, message: string): Record<string, unknown> {
+  return { type: "error", error: { type: anthropicErrorType(status), message } };
+}
+
+function sseEvent(type: string, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+/**
+ * Create a stream converting chat completions SSE chunks into Messages API
+ * SSE events. An upstream error chunk, or a stream that ends without
+ * [DONE] or a finish_reason, becomes an `error` event, which ends the
+ * stream without message_stop.
+ *
+ * @param model - Model ID to report (the one that served the request)
+ */
+export function createAnthropicStream(model: string): Transform {
+  const parser = new SseParser();
+  const decoder = new TextDecoder();
+  let started = false;
+  let finished = false;
+  let blockIndex = -1;
+  let blockType: "text" | "tool_use" | undefined;
+  /** chat completions tool call index → content block index */
+  const toolBlocks = new Map<number, number>();
+  /** Undefined until the upstream sends a finish_reason */
+  let stopReason: string | undefined;
+  let usage = { input_tokens: 0, output_tokens: 0 };
+
+  const closeBlock = (): string => {
+    if (blockType === undefined) return "";
+    blockType = undefined;
+    return sseEvent("content_block_stop", { index: blockIndex });
+  };
+  const openBlock = (type: "text" | "tool_use", block: Record<string, unknown>): string => {
+    const out = closeBlock();
+    blockIndex++;
+    blockType = type;
+    return out + sseEvent("content_block_start", { index: blockIndex, content_block: block });
+  };
+  const start = (id: unknown): string => {
+    if (started) return "";
+    started = true;
+    return sseEvent("message_start", {
+      message: {
+        id: `msg_${String(id ?? randomUUID()).replace(/^chatcmpl-/, "")}`,
+        type: "message",
+        role: "assistant",
+        model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage,
+      },
+    });
+  };
+  const finish = (): string => {
+    if (finished) return "";
+    finished = true;
+    return (
+      start(undefined) +
+      closeBlock() +
+      sseEvent("message_delta", {
+        delta: { stop_reason: stopReason ?? "end_turn", stop_sequence: null },
+        usage,
+      }) +
+      sseEvent("message_stop", {})
+    );
+  };
+
+  /** Error event for an upstream error chunk, or a stream cut off before it finished. */
+  const fail = (status: number, message: string): string => {
+    finished = true;
+    return sseEvent("error", anthropicError(status, message));
+  };
+
+  const convert = (data: string): string => {
+    if (data === "[DONE]") return finish();
+    const chunk = parseSseJson({ data });
+    if (!chunk || finished) return "";
+    const error = chunkError(chunk);
+    if (error) return fail(error.status, error.message);
+    let out = start(chunk.id);
+    if (chunk.usage) usage = toUsage(chunk.usage);
+
+    for (const choice of (chunk.choices as unknown[]) ?? []) {
+      const { delta, finish_reason } = choice as {
+        delta?: {
+          content?: string | null;
+          tool_calls?: {
+            index?: number;
+            id?: string;
+            function?: { name?: string; arguments?: string };
+          }[];
+        };
+        finish_reason?: string | null;
+      };
+      if (delta?.content) {
+        if (blockType !== "text") out += openBlock("text", { type: "text", text: "" });
+        out += sseEvent("content_block_delta", {
+          index: blockIndex,
+          delta: { type: "text_delta", text: delta.content },
+        });
+      }
+      for (const call of delta?.tool_calls ?? []) {
+        const callIndex = call.index ?? 0;
+        if (!toolBlocks.has(callIndex)) {
+          out += openBlock("tool_use", {
+            type: "tool_use",
+            id: call.id ?? `toolu_${randomUUID()}`,
+            name: call.function?.name ?? "",
+            input: {},
+          });
+          toolBlocks.set(callIndex, blockIndex);
+        }
+        if (call.function?.arguments) {
+          out += sseEvent("content_block_delta", {
+            index: toolBlocks.get(callIndex),
+            delta: { type: "input_json_delta", partial_json: call.function.arguments },
+          });
+        }
+      }
+      if (finish_reason) stopReason = STOP_REASONS[finish_reason] ?? "end_turn";
+    }
+    return out;
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      const out = parser
+        .push(decoder.decode(chunk, { stream: true }))
+        .map((e) => convert(e.data))
+        .join("");
+      callback(null, out || undefined);
+    },
+    flush(callback: TransformCallback) {
+      let out = parser.flush().map((e) => convert(e.data)).join("");
+      // Without [DONE] or a finish_reason the response may be truncated
+      if (!finished) {
+        out += stopReason
+          ? finish()
+          : fail(502, "Upstream stream ended before the response was complete");
+      }
+      callback(null, out || undefined);
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { BudgetTracker, formatBudgetMessage, resolveBudgets } from "./budget.js";
+
+/** A settable clock for the tracker. */
+function clock(iso: string) {
+  let current = new Date(iso);
+  return {
+    now: () => current,
+    set: (next: string) => (current = new Date(next)),
+  };
+}
+
+describe("BudgetTracker", () => {
+  it("stays ok below the limits", () => {
+    const tracker = new BudgetTracker({ daily: { soft: 1, hard: 2 } });
+    tracker.record(0.5);
+
+    expect(tracker.check()).toEqual({ state: "ok" });
+  });
+
+  it("reports the soft limit once it's reached, with the configured action", () => {
+    const tracker = new BudgetTracker({ daily: { soft: 1, hard: 2 }, onSoftLimit: "MEDIUM" });
+    tracker.record(0.6);
+    tracker.record(0.4);
+
+    expect(tracker.check()).toEqual({
+      state: "soft",
+      scope: "global",
+      period: "daily",
+      spent: 1,
+      limit: 1,
+      action: "MEDIUM",
+    });
+  });
+
+  it("reports the hard limit over the soft one", () => {
+    const tracker = new BudgetTracker({ daily: { soft: 1 }, monthly: { hard: 2 } });
+    tracker.record(2.5);
+
+    const check = tracker.check();
+    expect(check).toMatchObject({ state: "hard", period: "monthly", limit: 2 });
+    expect(check.state !== "ok" && formatBudgetMessage(check)).toBe(
+      "Monthly hard budget exceeded: $2.50 spent of $2.00 (resets the 1st of the month (UTC))",
+    );
+  });
+
+  it("resets daily spend at UTC midnight but keeps the month's", () => {
+    const time = clock("2026-03-10T23:00:00Z");
+    const tracker = new BudgetTracker({ daily: { hard: 1 }, monthly: { soft: 1.5 } }, time.now);
+    tracker.record(1);
+    expect(tracker.check().state).toBe("hard");
+
+    time.set("2026-03-11T00:30:00Z");
+    tracker.record(0.5);
+    expect(tracker.getSpend()).toEqual({ daily: 0.5, monthly: 1.5 });
+    expect(tracker.check()).toMatchObject({ state: "soft", period: "monthly" });
+
+    time.set("2026-04-01T00:00:00Z");
+    expect(tracker.check()).toEqual({ state: "ok" });
+  });
+
+  it("checks a client's own budget before the global one", () => {
+    const tracker = new BudgetTracker({
+      daily: { hard: 10 },
+      clients: { ci: { daily: { hard: 1 } } },
+    });
+    tracker.record(1, "ci");
+
+    expect(tracker.check("ci")).toMatchObject({ state: "hard", scope: "ci" });
+    expect(tracker.check("someone-else")).toEqual({ state: "ok" });
+    expect(tracker.getSpend()).toMatchObject({ daily: 1 });
+  });
+});
+
+describe("resolveBudgets", () => {
+  it("rejects negative limits and unknown soft-limit actions", () => {
+    expect(() => resolveBudgets({ daily: { soft: -1 }, onSoftLimit: "cheap" })).toThrow(
+      /Invalid budgets config/,
+    );
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Spend Budgets
+ *
+ * Daily and monthly USD limits enforced by the proxy, globally and per API
+ * client (identified by the x-clawd-client request header):
+ *
+ *   - soft limit: routed requests are forced onto the eco profile, or capped
+ *     at a maximum tier (`onSoftLimit`)
+ *   - hard limit: requests are refused with a 402
+ *
+ * Spend is the actual usage-based cost recorded in the ledger. Periods are
+ * UTC days and months, matching the ledger files; on startup the tracker is
+ * seeded with month-to-date spend from the ledger.
+ */
+
+import type { Tier } from "./router/types.js";
+import { validateSchema, type JsonSchema } from "./router/schema.js";
+import { readLedgerEntries } from "./ledger.js";
+
+export type BudgetLimit = {
+  /** USD; routed requests are downgraded once spend reaches this */
+  soft?: number;
+  /** USD; requests are refused once spend reaches this */
+  hard?: number;
+};
+
+/** "eco" forces the eco routing profile; a tier caps routing at that tier. */
+export type SoftLimitAction = "eco" | Tier;
+
+export type BudgetConfig = {
+  daily?: BudgetLimit;
+  monthly?: BudgetLimit;
+  /** What to do while a soft limit is exceeded (default: "eco") */
+  onSoftLimit?: SoftLimitAction;
+};
+
+export type BudgetsConfig = BudgetConfig & {
+  /** Per-client budgets keyed by x-clawd-client value, checked in addition to the global one */
+  clients?: Record<string, BudgetConfig>;
+};
+
+export type BudgetPeriod = "daily" | "monthly";
+
+export type BudgetCheck =
+  | { state: "ok" }
+  | {
+      state: "soft" | "hard";
+      /** "global" or the client ID whose budget was exceeded */
+      scope: string;
+      period: BudgetPeriod;
+      spent: number;
+      limit: number;
+      action: SoftLimitAction;
+    };
+
+const LIMIT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    soft: { type: "number", minimum: 0 },
+    hard: { type: "number", minimum: 0 },
+  },
+  additionalProperties: false,
+};
+
+const BUDGET_PROPERTIES: Record<string, JsonSchema> = {
+  daily: LIMIT_SCHEMA,
+  monthly: LIMIT_SCHEMA,
+  onSoftLimit: {
+    type: "string",
+    enum: ["eco", "SIMPLE", "MEDIUM", "COMPLEX", "REASONING"],
+    description: '"eco" forces the eco profile; a tier caps routing at that tier',
+  },
+};
+
+/**
+ * JSON Schema for the plugin config `budgets` object.
+ * Mirrored in openclaw.plugin.json under configSchema.properties.budgets.
+ */
+export const BUDGETS_CONFIG_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Daily/monthly USD spend limits, global and per x-clawd-client",
+  properties: {
+    ...BUDGET_PROPERTIES,
+    clients: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        properties: BUDGET_PROPERTIES,
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+};
+
+/** Raised when the budgets config fails validation. */
+export class BudgetConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid budgets config:\n  - ${issues.join("\n  - ")}`);
+    this.name = "BudgetConfigError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a raw budgets config. Returns human-readable issues (empty when valid).
+ */
+export function validateBudgets(value: unknown): string[] {
+  const issues = validateSchema(value, BUDGETS_CONFIG_SCHEMA, "budgets");
+  if (issues.length > 0) return issues;
+
+  const budgets = value as BudgetsConfig;
+  const scopes: [string, BudgetConfig][] = [
+    ["budgets", budgets],
+    ...Object.entries(budgets.clients ?? {}).map(
+      ([id, b]): [string, BudgetConfig] => [`budgets.clients.${id}`, b],
+    ),
+  ];
+  for (const [path, budget] of scopes) {
+    for (const period of ["daily", "monthly"] as const) {
+      const limit = budget[period];
+      if (limit?.soft !== undefined && limit.hard !== undefined && limit.soft > limit.hard) {
+        issues.push(`${path}.${period}: soft limit (${limit.soft}) is above hard limit (${limit.hard})`);
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validate the plugin config `budgets` value.
+ *
+ * @returns undefined when no budgets are configured
+ * @throws BudgetConfigError listing every problem found
+ */
+export function resolveBudgets(value: unknown): BudgetsConfig | undefined {
+  if (value === undefined || value === null) return undefined;
+  const issues = validateBudgets(value);
+  if (issues.length > 0) {
+    throw new BudgetConfigError(issues);
+  }
+  return value as BudgetsConfig;
+}
+
+type Spend = {
+  day: string; // YYYY-MM-DD (UTC)
+  month: string; // YYYY-MM (UTC)
+  daily: number;
+  monthly: number;
+};
+
+const GLOBAL_SCOPE = "global";
+
+const usd = (n: number) => `$${n.toFixed(n < 1 ? 4 : 2)}`;
+
+/**
+ * Running spend per scope for the current UTC day and month.
+ * Only the global scope and clients with a configured budget are tracked.
+ */
+export class BudgetTracker {
+  private readonly spend = new Map<string, Spend>();
+
+  constructor(
+    private readonly config: BudgetsConfig,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Create a tracker seeded with month-to-date spend from the ledger.
+   */
+  static async fromLedger(
+    config: BudgetsConfig,
+    ledgerDir: string,
+    now: () => Date = () => new Date(),
+  ): Promise<BudgetTracker> {
+    const tracker = new BudgetTracker(config, now);
+    const current = now();
+    const monthStart = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth(), 1));
+    for (const entry of await readLedgerEntries(monthStart, current, ledgerDir)) {
+      tracker.record(entry.cost, entry.client, new Date(entry.timestamp));
+    }
+    return tracker;
+  }
+
+  /** Add the cost of a completed request. */
+  record(cost: number, client?: string, at: Date = this.now()): void {
+    if (!(cost > 0)) return;
+    this.add(GLOBAL_SCOPE, cost, at);
+    if (client && this.config.clients?.[client]) {
+      this.add(`client:${client}`, cost, at);
+    }
+  }
+
+  /** Spend so far in the current day and month (global, or for one client). */
+  getSpend(client?: string): { daily: number; monthly: number } {
+    const spend = this.current(client ? `client:${client}` : GLOBAL_SCOPE);
+    return { daily: spend.daily, monthly: spend.monthly };
+  }
+
+  /**
+   * Check the global budget and the client's budget (if any).
+   * A hard limit anywhere wins over a soft one; the client's budget is
+   * reported before the global one at the same level.
+   */
+  check(client?: string): BudgetCheck {
+    const scopes: [string, string, BudgetConfig][] = [];
+    const clientConfig = client ? this.config.clients?.[client] : undefined;
+    if (client && clientConfig) scopes.push([client, `client:${client}`, clientConfig]);
+    scopes.push([GLOBAL_SCOPE, GLOBAL_SCOPE, this.config]);
+
+    for (const level of ["hard", "soft"] as const) {
+      for (const [scope, key, budget] of scopes) {
+        const spend = this.current(key);
+        for (const period of ["daily", "monthly"] as const) {
+          const limit = budget[period]?.[level];
+          if (limit !== undefined && spend[period] >= limit) {
+            return {
+              state: level,
+              scope,
+              period,
+              spent: spend[period],
+              limit,
+              action: budget.onSoftLimit ?? "eco",
+            };
+          }
+        }
+      }
+    }
+    return { state: "ok" };
+  }
+
+  private add(key: string, cost: number, at: Date): void {
+    const spend = this.current(key);
+    const iso = at.toISOString();
+    if (iso.slice(0, 10) === spend.day) spend.daily += cost;
+    if (iso.slice(0, 7) === spend.month) spend.monthly += cost;
+  }
+
+  /** Spend for a scope, reset when the UTC day or month has rolled over. */
+  private current(key: string): Spend {
+    const iso = this.now().toISOString();
+    const day = iso.slice(0, 10);
+    const month = iso.slice(0, 7);
+    let spend = this.spend.get(key);
+    if (!spend) {
+      spend = { day, month, daily: 0, monthly: 0 };
+      this.spend.set(key, spend);
+    }
+    if (spend.month !== month) {
+      spend.month = month;
+      spend.monthly = 0;
+    }
+    if (spend.day !== day) {
+      spend.day = day;
+      spend.daily = 0;
+    }
+    return spend;
+  }
+}
+
+/**
+ * Human-readable message for an exceeded budget.
+ */
+export function formatBudgetMessage(check: Exclude<BudgetCheck, { state: "ok" }>): string {
+  const who = check.scope === GLOBAL_SCOPE ? "" : ` for client "${check.scope}"`;
+  const resets = check.period === "daily" ? "00:00 UTC" : "the 1st of the month (UTC)";
+  return (
+    `${check.period === "daily" ? "Daily" : "Monthly"} ${check.state} budget exceeded${who}: ` +
+    `${usd(check.spent)} spent of ${usd(check.limit)} (resets ${resets})`
+  );
+}
@@ -0,0 +1,128 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadCatalog, startCatalogRefresh, syncCatalog } from "./catalog.js";
+import { OPENROUTER_MODELS, isCatalogModel } from "./models.js";
+
+const NEW_MODEL = "acme/widget-1";
+const LISTING = {
+  data: [
+    {
+      id: NEW_MODEL,
+      name: "Acme Widget 1",
+      context_length: 32_000,
+      pricing: { prompt: "0.000001", completion: "0.000002" },
+    },
+  ],
+};
+const NOW = Date.parse("2026-03-10T12:00:00Z");
+const now = () => NOW;
+
+let dir: string;
+let cachePath: string;
+
+async function writeCacheFile(fetchedAt: string): Promise<void> {
+  await writeFile(cachePath, JSON.stringify({ fetchedAt, data: LISTING.data }));
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "clawd-catalog-"));
+  cachePath = join(dir, "models.json");
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  await loadCatalog({ enabled: false });
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("syncCatalog", () => {
+  it("fetches the live listing, caches it and merges it onto the static list", async () => {
+    const fetchMock = vi.fn(async () => Response.json(LISTING));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const status = await syncCatalog({}, cachePath, now);
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(status).toEqual({
+      source: "live",
+      fetchedAt: "2026-03-10T12:00:00.000Z",
+      models: OPENROUTER_MODELS.length + 1,
+    });
+    expect(isCatalogModel(NEW_MODEL)).toBe(true);
+    const cached = JSON.parse(await readFile(cachePath, "utf8"));
+    expect(cached.data[0].id).toBe(NEW_MODEL);
+  });
+
+  it("uses a fresh cache without fetching", async () => {
+    await writeCacheFile("2026-03-10T06:00:00Z");
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const status = await syncCatalog({}, cachePath, now);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(status.source).toBe("cache");
+    expect(isCatalogModel(NEW_MODEL)).toBe(true);
+  });
+
+  it("falls back to a stale cache when the fetch fails", async () => {
+    await writeCacheFile("2026-03-01T00:00:00Z");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("unavailable", { status: 503 })),
+    );
+
+    const status = await syncCatalog({}, cachePath, now);
+
+    expect(status).toMatchObject({ source: "cache", fetchedAt: "2026-03-01T00:00:00Z" });
+    expect(status.error).toMatch(/returned 503/);
+    expect(isCatalogModel(NEW_MODEL)).toBe(true);
+  });
+
+  it("falls back to the static list when there is no cache and the fetch fails", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("fetch failed");
+      }),
+    );
+
+    const status = await syncCatalog({}, cachePath, now);
+
+    expect(status).toMatchObject({ source: "static", models: OPENROUTER_MODELS.length });
+    expect(status.error).toMatch(/fetch failed/);
+    expect(isCatalogModel(NEW_MODEL)).toBe(false);
+  });
+
+  it("falls back to the static list for an unreadable snapshot, without fetching", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const status = await syncCatalog({ snapshotPath: join(dir, "missing.json") }, cachePath, now);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(status.source).toBe("static");
+    expect(status.error).toMatch(/^Snapshot /);
+  });
+});
+
+describe("startCatalogRefresh", () => {
+  it("applies nothing once stopped, even when the fetch was already in flight", async () => {
+    let respond!: (response: Response) => void;
+    const fetchMock = vi.fn(() => new Promise<Response>((resolve) => (respond = resolve)));
+    vi.stubGlobal("fetch", fetchMock);
+    const onUpdate = vi.fn();
+
+    const current = await loadCatalog({}, cachePath);
+    const stop = startCatalogRefresh({}, current, onUpdate, cachePath, now);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledOnce());
+    stop();
+    respond(Response.json(LISTING));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(onUpdate).not.toHaveBeenCalled();
+    expect(isCatalogModel(NEW_MODEL)).toBe(false);
+  });
+});
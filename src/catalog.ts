@@ -0,0 +1,384 @@
+/**
+ * Model Catalog Sync
+ *
+ * Refreshes the model catalog from OpenRouter's /api/v1/models listing:
+ * prices, context windows, max output and capabilities of the curated
+ * models in models.ts, plus every other listed model so explicit model IDs
+ * are priced and context-checked too.
+ *
+ * The listing comes from a local snapshot file, the disk cache
+ * (~/.openclaw/clawd-router/openrouter-models.json) or a live fetch. The
+ * proxy starts from the snapshot or cache, whatever its age, and refetches
+ * in the background once the listing is older than maxAgeMs. If none is
+ * available the static list stays in effect. Curated models missing from
+ * the listing keep their static fields.
+ */
+
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { OPENROUTER_MODELS, setCatalogModels, type OpenRouterModel } from "./models.js";
+import { validateSchema, type JsonSchema } from "./router/schema.js";
+import { readTextFile } from "./fs-read.js";
+
+export type CatalogConfig = {
+  /** Sync from OpenRouter; false keeps the static list (default: true) */
+  enabled?: boolean;
+  /** Load this /api/v1/models JSON file instead of fetching */
+  snapshotPath?: string;
+  /** Refetch once the cached listing is older than this (default: 24h) */
+  maxAgeMs?: number;
+};
+
+/** Where the active catalog came from. */
+export type CatalogSource = "live" | "cache" | "snapshot" | "static";
+
+export type CatalogStatus = {
+  source: CatalogSource;
+  /** Models in the active catalog, including router profiles */
+  models: number;
+  /** When the listing was fetched (live and cache only) */
+  fetchedAt?: string;
+  /** Why a better source wasn't used, e.g. a failed fetch */
+  error?: string;
+};
+
+export const DEFAULT_CATALOG_CACHE_PATH = join(
+  homedir(),
+  ".openclaw",
+  "clawd-router",
+  "openrouter-models.json",
+);
+export const DEFAULT_CATALOG_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const OPENROUTER_MODELS_URL = "https://openrouter.ai/api/v1/models";
+const FETCH_TIMEOUT_MS = 10_000;
+/** Delay before retrying a failed background refresh */
+const REFRESH_RETRY_MS = 5 * 60 * 1000;
+/** Longest delay setTimeout supports */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * JSON Schema for the plugin config `catalog` object.
+ * Mirrored in openclaw.plugin.json under configSchema.properties.catalog.
+ */
+export const CATALOG_CONFIG_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Sync model prices, context windows and capabilities from OpenRouter /models",
+  properties: {
+    enabled: { type: "boolean" },
+    snapshotPath: { type: "string" },
+    maxAgeMs: { type: "integer", minimum: 60000 },
+  },
+  additionalProperties: false,
+};
+
+/** Raised when the catalog config fails validation. */
+export class CatalogConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid catalog config:\n  - ${issues.join("\n  - ")}`);
+    this.name = "CatalogConfigError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a raw catalog config. Returns human-readable issues (empty when valid).
+ */
+export function validateCatalogConfig(value: unknown): string[] {
+  return validateSchema(value, CATALOG_CONFIG_SCHEMA, "catalog");
+}
+
+/**
+ * Validate the plugin config `catalog` value.
+ *
+ * @returns undefined when no catalog config is set (defaults apply)
+ * @throws CatalogConfigError listing every problem found
+ */
+export function resolveCatalogConfig(value: unknown): CatalogConfig | undefined {
+  if (value === undefined || value === null) return undefined;
+  const issues = validateCatalogConfig(value);
+  if (issues.length > 0) {
+    throw new CatalogConfigError(issues);
+  }
+  return value as CatalogConfig;
+}
+
+/** One entry of the OpenRouter /api/v1/models `data` array (fields we use). */
+export type OpenRouterListingModel = {
+  id: string;
+  name?: string;
+  context_length?: number | null;
+  /** USD per token, as decimal strings ("-1" for variable pricing) */
+  pricing?: { prompt?: string | number; completion?: string | number };
+  top_provider?: { context_length?: number | null; max_completion_tokens?: number | null };
+  architecture?: { input_modalities?: string[] };
+  supported_parameters?: string[];
+};
+
+/**
+ * Read the `data` array of an OpenRouter /api/v1/models response.
+ *
+ * @throws Error when the JSON isn't a model listing
+ */
+export function parseModelListing(json: unknown): OpenRouterListingModel[] {
+  const data = (json as { data?: unknown } | null)?.data;
+  if (!Array.isArray(data)) {
+    throw new Error('Model listing must be an object with a "data" array');
+  }
+  return data.filter(
+    (m): m is OpenRouterListingModel =>
+      typeof m === "object" && m !== null && typeof (m as { id?: unknown }).id === "string",
+  );
+}
+
+/** USD per token → USD per 1M tokens; undefined for missing or variable prices. */
+function perMillion(price: string | number | undefined): number | undefined {
+  const n = Number(price);
+  if (price === undefined || !Number.isFinite(n) || n < 0) return undefined;
+  return Math.round(n * 1e12) / 1e6;
+}
+
+/**
+ * Convert a listing entry, keeping the curated model's name and version and
+ * any field the listing leaves out. Returns undefined for unusable entries.
+ */
+function fromListing(
+  entry: OpenRouterListingModel,
+  base: OpenRouterModel | undefined,
+): OpenRouterModel | undefined {
+  const inputPrice = perMillion(entry.pricing?.prompt);
+  const outputPrice = perMillion(entry.pricing?.completion);
+  const contextWindow =
+    entry.top_provider?.context_length || entry.context_length || base?.contextWindow;
+  if (inputPrice === undefined || outputPrice === undefined || !contextWindow) return undefined;
+
+  const params = entry.supported_parameters && new Set(entry.supported_parameters);
+  const modalities = entry.architecture?.input_modalities;
+  return {
+    id: entry.id,
+    name: base?.name ?? entry.name ?? entry.id,
+    ...(base?.version ? { version: base.version } : {}),
+    inputPrice,
+    outputPrice,
+    contextWindow,
+    maxOutput: entry.top_provider?.max_completion_tokens || base?.maxOutput || contextWindow,
+    reasoning: params
+      ? params.has("reasoning") || params.has("include_reasoning")
+      : base?.reasoning,
+    vision: modalities ? modalities.includes("image") : base?.vision,
+    tools: params ? params.has("tools") : base?.tools,
+    jsonSchema: params
+      ? params.has("response_format") || params.has("structured_outputs")
+      : base?.jsonSchema,
+  };
+}
+
+/**
+ * Merge a model listing onto a base catalog: base models are refreshed from
+ * their listing entry (or kept as-is when unlisted), then the remaining
+ * listed models are appended.
+ */
+export function mergeCatalog(
+  base: OpenRouterModel[],
+  listing: OpenRouterListingModel[],
+): OpenRouterModel[] {
+  const listed = new Map(listing.map((m) => [m.id, m]));
+  const merged = base.map((m) => {
+    const entry = listed.get(m.id);
+    return (entry && fromListing(entry, m)) ?? m;
+  });
+  const known = new Set(base.map((m) => m.id));
+  for (const entry of listing) {
+    if (known.has(entry.id)) continue;
+    const model = fromListing(entry, undefined);
+    if (model) {
+      merged.push(model);
+      known.add(model.id);
+    }
+  }
+  return merged;
+}
+
+type CachedListing = { fetchedAt: string; data: OpenRouterListingModel[] };
+
+async function readCache(cachePath: string): Promise<CachedListing | undefined> {
+  if (!existsSync(cachePath)) return undefined;
+  try {
+    const json = JSON.parse(await readTextFile(cachePath)) as { fetchedAt?: unknown };
+    const data = parseModelListing(json);
+    if (typeof json.fetchedAt !== "string") return undefined;
+    return { fetchedAt: json.fetchedAt, data };
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeCache(cachePath: string, cached: CachedListing): Promise<void> {
+  await mkdir(dirname(cachePath), { recursive: true });
+  const tmpPath = `${cachePath}.tmp.${process.pid}`;
+  await writeFile(tmpPath, JSON.stringify(cached));
+  await rename(tmpPath, cachePath);
+}
+
+async function fetchListing(signal?: AbortSignal): Promise<OpenRouterListingModel[]> {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const response = await fetch(OPENROUTER_MODELS_URL, {
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+  });
+  if (!response.ok) {
+    throw new Error(`OpenRouter /models returned ${response.status}`);
+  }
+  return parseModelListing(await response.json());
+}
+
+/** Merge a listing onto the static list and make it the active catalog. */
+function applyListing(
+  listing: OpenRouterListingModel[],
+  status: Omit<CatalogStatus, "models">,
+): CatalogStatus {
+  const models = mergeCatalog(OPENROUTER_MODELS, listing);
+  setCatalogModels(models);
+  return { ...status, models: models.length };
+}
+
+function applyStatic(error?: string): CatalogStatus {
+  setCatalogModels(OPENROUTER_MODELS);
+  return { source: "static", models: OPENROUTER_MODELS.length, ...(error ? { error } : {}) };
+}
+
+/** Whether the config syncs from the live listing (not disabled or pinned to a snapshot). */
+export function catalogSyncsLive(config: CatalogConfig = {}): boolean {
+  return config.enabled !== false && !config.snapshotPath;
+}
+
+/**
+ * Make the best local listing the active catalog without touching the
+ * network: the snapshot, the disk cache whatever its age, or the static
+ * list. Never throws.
+ *
+ * @param config - Catalog settings (plugin config `catalog`)
+ * @param cachePath - Disk cache for live listings
+ */
+export async function loadCatalog(
+  config: CatalogConfig = {},
+  cachePath: string = DEFAULT_CATALOG_CACHE_PATH,
+): Promise<CatalogStatus> {
+  if (config.enabled === false) return applyStatic();
+
+  if (config.snapshotPath) {
+    try {
+      const listing = parseModelListing(JSON.parse(await readTextFile(config.snapshotPath)));
+      return applyListing(listing, { source: "snapshot" });
+    } catch (err) {
+      return applyStatic(`Snapshot ${config.snapshotPath}: ${(err as Error).message}`);
+    }
+  }
+
+  const cached = await readCache(cachePath);
+  return cached
+    ? applyListing(cached.data, { source: "cache", fetchedAt: cached.fetchedAt })
+    : applyStatic();
+}
+
+/**
+ * Fetch the live listing, cache it on disk and make it the active catalog.
+ * Never throws: on failure the active catalog is left alone and `current`
+ * is returned with the reason in `error`.
+ *
+ * @param current - Status of the active catalog
+ * @param cachePath - Disk cache for live listings
+ * @param now - Clock, for the fetch timestamp
+ * @param signal - Cancels the refresh; once aborted nothing is applied
+ */
+export async function refreshCatalog(
+  current: CatalogStatus,
+  cachePath: string = DEFAULT_CATALOG_CACHE_PATH,
+  now: () => number = Date.now,
+  signal?: AbortSignal,
+): Promise<CatalogStatus> {
+  try {
+    const data = await fetchListing(signal);
+    const fetchedAt = new Date(now()).toISOString();
+    await writeCache(cachePath, { fetchedAt, data }).catch(() => {
+      // A read-only cache dir only costs a refetch next start
+    });
+    signal?.throwIfAborted();
+    return applyListing(data, { source: "live", fetchedAt });
+  } catch (err) {
+    const error = `Fetching ${OPENROUTER_MODELS_URL} failed: ${(err as Error).message}`;
+    return { ...current, error };
+  }
+}
+
+/** Age of a catalog's listing in ms; Infinity when it wasn't fetched (snapshot, static). */
+function catalogAge(status: CatalogStatus, now: () => number): number {
+  return status.fetchedAt ? now() - Date.parse(status.fetchedAt) : Infinity;
+}
+
+/**
+ * Load the model listing per the config and make it the active catalog
+ * (see setCatalogModels), fetching it first when the cache is missing or
+ * older than maxAgeMs. Never throws: failures fall back to the stale cache
+ * or the static list and are reported in `error`.
+ *
+ * @param config - Catalog settings (plugin config `catalog`)
+ * @param cachePath - Disk cache for live listings
+ * @param now - Clock, for cache freshness
+ */
+export async function syncCatalog(
+  config: CatalogConfig = {},
+  cachePath: string = DEFAULT_CATALOG_CACHE_PATH,
+  now: () => number = Date.now,
+): Promise<CatalogStatus> {
+  const local = await loadCatalog(config, cachePath);
+  const maxAgeMs = config.maxAgeMs ?? DEFAULT_CATALOG_MAX_AGE_MS;
+  if (!catalogSyncsLive(config) || catalogAge(local, now) < maxAgeMs) return local;
+  return refreshCatalog(local, cachePath, now);
+}
+
+/**
+ * Keep a live-synced catalog fresh in the background: refetch once the
+ * active listing is maxAgeMs old (right away for the static list or a stale
+ * cache), then every maxAgeMs. A failed fetch keeps the active catalog and
+ * is retried sooner. Does nothing for disabled or snapshot configs.
+ *
+ * @param config - Catalog settings (plugin config `catalog`)
+ * @param current - Status of the active catalog (see loadCatalog)
+ * @param onUpdate - Called with the status after every refresh attempt
+ * @returns Function stopping the refreshes
+ */
+export function startCatalogRefresh(
+  config: CatalogConfig,
+  current: CatalogStatus,
+  onUpdate: (status: CatalogStatus) => void,
+  cachePath: string = DEFAULT_CATALOG_CACHE_PATH,
+  now: () => number = Date.now,
+): () => void {
+  if (!catalogSyncsLive(config)) return () => {};
+  const maxAgeMs = config.maxAgeMs ?? DEFAULT_CATALOG_MAX_AGE_MS;
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const schedule = (delayMs: number): void => {
+    // Clamped to what setTimeout accepts; unref'd so it never holds the process open
+    timer = setTimeout(refresh, Math.min(Math.max(0, delayMs), MAX_TIMER_MS));
+    timer.unref();
+  };
+  const refresh = async (): Promise<void> => {
+    const status = await refreshCatalog(current, cachePath, now, controller.signal);
+    if (controller.signal.aborted) return;
+    current = status;
+    onUpdate(status);
+    schedule(status.error ? Math.min(maxAgeMs, REFRESH_RETRY_MS) : maxAgeMs);
+  };
+
+  schedule(maxAgeMs - catalogAge(current, now));
+  return () => {
+    controller.abort();
+    clearTimeout(timer);
+  };
+}
@@ -2,22 +2,53 @@
 /**
  * Clawd Router CLI
  *
- * Standalone proxy server for OpenRouter routing.
+ * Standalone proxy server for OpenRouter routing, plus offline tools
+ * for evaluating the router against labeled prompts.
  */
 
 import { startProxy, getProxyPort } from "./proxy.js";
 import { VERSION } from "./version.js";
+import { writeFileSync } from "node:fs";
+import { loadEvalDataset, evaluateRouting, formatEvalReport, TIERS } from "./eval.js";
+import { tuneScoring } from "./tune.js";
+import { getUsageStats, parseWindow, formatStatsReport } from "./stats.js";
+import { DEFAULT_ROUTING_CONFIG, resolveRoutingConfig } from "./router/index.js";
+import type { RoutingConfig, RoutingProfile } from "./router/index.js";
+import { buildModelPricing, isCatalogModel, isRoutingProfile } from "./models.js";
+import { readTextFile } from "./fs-read.js";
+import { loadCustomModels, DEFAULT_CUSTOM_MODELS_PATH } from "./custom-models.js";
 
 function printHelp(): void {
   const help = `clawd-router v${VERSION}
 
 Usage:
   clawd-router [options]
+  clawd-router eval <file.jsonl> [--config <file>] [--profile <name>] [--json]
+  clawd-router tune <file.jsonl> [--config <file>] [--profile <name>]
+                    [--cost-penalty <n>] [--iterations <n>] [--out <file>]
+  clawd-router stats [window] [--json]
+
+Commands:
+  eval <file.jsonl>   Route a labeled prompt set and report accuracy,
+                      confusion matrix, ambiguity rate and cost
+  tune <file.jsonl>   Search scoring weights, tier boundaries and confidence
+                      settings on a labeled prompt set; prints a routing
+                      override JSON (or writes it to --out)
+  stats [window]      Summarize the usage ledger: requests per tier and model,
+                      spend, savings, fallback and error rates (window: 24h,
+                      7d, 2w, ...; default: 7d)
 
 Options:
   --version, -v       Show version number
   --help, -h          Show this help message
   --port <number>     Port to listen on (default: 8403)
+  --config <file>     JSON routing overrides ({"routing": {...}} or the bare object)
+  --profile <name>    Routing profile for eval and tune: free, eco, auto, premium
+                      (default: auto)
+  --json              Print the eval or stats report as JSON
+  --cost-penalty <n>  Tune objective: accuracy - n * (cost / Opus cost) (default: 0.1)
+  --iterations <n>    Maximum tuning passes (default: 50)
+  --out <file>        Write tuned overrides to a file instead of stdout
 
 Environment:
   OPENROUTER_API_KEY  Required - OpenRouter API key
@@ -25,17 +56,37 @@ Environment:
 
 Example:
   clawd-router --port 8403
+  clawd-router eval datasets/routing-eval.jsonl
+  clawd-router tune datasets/routing-eval.jsonl --out routing.json
+  clawd-router eval datasets/routing-eval.jsonl --config routing.json
+  clawd-router stats 24h
 `;
   process.stdout.write(help);
 }
 
-function parseArgs(args: string[]): { version: boolean; help: boolean; port?: number } {
-  const result: { version: boolean; help: boolean; port?: number } = {
+type CliArgs = {
+  version: boolean;
+  help: boolean;
+  port?: number;
+  command?: string;
+  positionals: string[];
+  config?: string;
+  profile?: string;
+  json: boolean;
+  costPenalty?: number;
+  iterations?: number;
+  out?: string;
+};
+
+function parseArgs(args: string[]): CliArgs {
+  const result: CliArgs = {
     version: false,
     help: false,
+    positionals: [],
+    json: false,
   };
   for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
+    const arg = args[i]!;
     if (arg === "--version" || arg === "-v") {
       result.version = true;
     } else if (arg === "--help" || arg === "-h") {
@@ -43,11 +94,133 @@ function parseArgs(args: string[]): { version: boolean; help: boolean; port?: nu
     } else if (arg === "--port" && i + 1 < args.length) {
       result.port = parseInt(args[i + 1]!, 10);
       i++;
+    } else if (arg === "--config" && i + 1 < args.length) {
+      result.config = args[i + 1];
+      i++;
+    } else if (arg === "--profile" && i + 1 < args.length) {
+      result.profile = args[i + 1];
+      i++;
+    } else if (arg === "--cost-penalty" && i + 1 < args.length) {
+      result.costPenalty = parseFloat(args[i + 1]!);
+      i++;
+    } else if (arg === "--iterations" && i + 1 < args.length) {
+      result.iterations = parseInt(args[i + 1]!, 10);
+      i++;
+    } else if (arg === "--out" && i + 1 < args.length) {
+      result.out = args[i + 1];
+      i++;
+    } else if (arg === "--json") {
+      result.json = true;
+    } else if (!arg.startsWith("-")) {
+      if (result.command === undefined) {
+        result.command = arg;
+      } else {
+        result.positionals.push(arg);
+      }
     }
   }
   return result;
 }
 
+/**
+ * Load routing overrides from a JSON file and merge them onto the defaults.
+ * Accepts either {"routing": {...}} (tune output, plugin config) or the bare object.
+ */
+async function loadRoutingConfigFile(filePath: string | undefined): Promise<RoutingConfig> {
+  if (!filePath) return DEFAULT_ROUTING_CONFIG;
+  const parsed = JSON.parse(await readTextFile(filePath)) as Record<string, unknown>;
+  const overrides = parsed.routing ?? parsed;
+  return resolveRoutingConfig(DEFAULT_ROUTING_CONFIG, overrides, isCatalogModel);
+}
+
+function parseProfile(value: string | undefined): RoutingProfile {
+  if (value === undefined) return "auto";
+  if (!isRoutingProfile(value)) {
+    throw new Error(`Unknown profile "${value}" (expected free, eco, auto or premium)`);
+  }
+  return value;
+}
+
+/**
+ * The tier table route() uses for a profile: the profile's own table when
+ * configured, else the auto table (the agentic table under agenticMode).
+ * Auto-detected agentic prompts are priced with the auto table.
+ */
+function profileTierTable(config: RoutingConfig, profile: RoutingProfile): RoutingConfig["tiers"] {
+  if (profile === "free" && config.freeTiers) return config.freeTiers;
+  if (profile === "eco" && config.ecoTiers) return config.ecoTiers;
+  if (profile === "premium" && config.premiumTiers) return config.premiumTiers;
+  if (config.overrides.agenticMode && config.agenticTiers) return config.agenticTiers;
+  return config.tiers;
+}
+
+async function runEval(args: CliArgs): Promise<void> {
+  const file = args.positionals[0];
+  if (!file) {
+    throw new Error("Usage: clawd-router eval <file.jsonl>");
+  }
+  const cases = await loadEvalDataset(file);
+  const report = await evaluateRouting(cases, {
+    config: await loadRoutingConfigFile(args.config),
+    modelPricing: buildModelPricing(),
+    routingProfile: parseProfile(args.profile),
+  });
+  console.log(args.json ? JSON.stringify(report, null, 2) : formatEvalReport(report));
+}
+
+async function runTune(args: CliArgs): Promise<void> {
+  const file = args.positionals[0];
+  if (!file) {
+    throw new Error("Usage: clawd-router tune <file.jsonl>");
+  }
+  const cases = await loadEvalDataset(file);
+  const config = await loadRoutingConfigFile(args.config);
+  const routingProfile = parseProfile(args.profile);
+  const modelPricing = buildModelPricing();
+
+  const tierTable = profileTierTable(config, routingProfile);
+  const result = tuneScoring(cases, config, tierTable, modelPricing, {
+    costPenalty: args.costPenalty,
+    maxIterations: args.iterations,
+  });
+
+  // Re-evaluate through route() so the reported numbers are exact
+  const tuned = resolveRoutingConfig(config, result.overrides.routing, isCatalogModel);
+  const before = await evaluateRouting(cases, { config, modelPricing, routingProfile });
+  const after = await evaluateRouting(cases, { config: tuned, modelPricing, routingProfile });
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+  const summary = (label: string, r: typeof before) =>
+    `${label} accuracy ${pct(r.accuracy)}, ambiguous ${pct(r.ambiguityRate)}, ` +
+    `savings ${pct(r.cost.savings)}`;
+  console.error(
+    `[clawd-router] Tuned in ${result.iterations} passes over ${cases.length} prompts ` +
+      `(${routingProfile} profile)`,
+  );
+  console.error(`[clawd-router] ${summary("before:", before)}`);
+  console.error(`[clawd-router] ${summary("after: ", after)}`);
+  const recallChanges = TIERS.filter(
+    (tier) => before.perTier[tier].recall !== after.perTier[tier].recall,
+  ).map(
+    (tier) => `${tier} ${pct(before.perTier[tier].recall)} -> ${pct(after.perTier[tier].recall)}`,
+  );
+  const recall = recallChanges.length > 0 ? recallChanges.join(", ") : "unchanged per tier";
+  console.error(`[clawd-router] Recall: ${recall}`);
+
+  const json = JSON.stringify(result.overrides, null, 2);
+  if (args.out) {
+    writeFileSync(args.out, `${json}\n`);
+    console.error(`[clawd-router] Wrote routing overrides to ${args.out}`);
+  } else {
+    console.log(json);
+  }
+}
+
+async function runStats(args: CliArgs): Promise<void> {
+  const window = args.positionals[0] ?? "7d";
+  const stats = await getUsageStats(parseWindow(window));
+  console.log(args.json ? JSON.stringify(stats, null, 2) : formatStatsReport(stats, window));
+}
+
 async function main(): Promise<void> {
   const args = parseArgs(process.argv.slice(2));
 
@@ -61,6 +234,28 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
+  // Custom models can appear in --config tier tables, so load them for every command
+  const customModels = loadCustomModels(undefined);
+
+  if (args.command === "eval") {
+    await runEval(args);
+    return;
+  }
+
+  if (args.command === "tune") {
+    await runTune(args);
+    return;
+  }
+
+  if (args.command === "stats") {
+    await runStats(args);
+    return;
+  }
+
+  if (args.command !== undefined) {
+    throw new Error(`Unknown command "${args.command}" (see --help)`);
+  }
+
   if (!process.env.OPENROUTER_API_KEY) {
     console.warn("[clawd-router] Warning: OPENROUTER_API_KEY is not set");
   }
@@ -68,6 +263,13 @@ async function main(): Promise<void> {
   const resolvedPort =
     args.port ?? parseInt(process.env.CLAWD_ROUTER_PORT ?? "8403", 10);
 
+  if (customModels.models.length > 0 || Object.keys(customModels.aliases).length > 0) {
+    console.log(
+      `[clawd-router] Loaded ${customModels.models.length} custom model(s) and ` +
+        `${Object.keys(customModels.aliases).length} alias(es) from ${DEFAULT_CUSTOM_MODELS_PATH}`,
+    );
+  }
+
   const proxy = await startProxy({ port: resolvedPort });
 
   console.log(`[clawd-router] Proxy listening on http://127.0.0.1:${getProxyPort()}`);
@@ -0,0 +1,196 @@
+/**
+ * Custom Models and Aliases
+ *
+ * Lets operators declare extra models (ID, price, context window,
+ * capabilities) and aliases without editing models.ts, from two places:
+ *
+ *   - ~/.openclaw/clawd-router/models.json  { "models": [...], "aliases": {...} }
+ *   - the plugin config `models` and `aliases` keys (same shape)
+ *
+ * The plugin config wins over the file for the same model ID or alias.
+ * Custom models replace catalog models with the same ID.
+ */
+
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { isRoutingProfile, setCustomModels, type OpenRouterModel } from "./models.js";
+import { validateSchema, type JsonSchema } from "./router/schema.js";
+import { readTextFileSync } from "./fs-read.js";
+
+/** A model declared by the operator. Prices are USD per 1M tokens. */
+export type CustomModel = {
+  id: string;
+  name?: string;
+  inputPrice: number;
+  outputPrice: number;
+  contextWindow: number;
+  /** Max output tokens (default: 8192, capped at contextWindow) */
+  maxOutput?: number;
+  reasoning?: boolean;
+  vision?: boolean;
+  tools?: boolean;
+  jsonSchema?: boolean;
+};
+
+export type CustomModelsConfig = {
+  models?: CustomModel[];
+  /** Alias → model ID or router profile */
+  aliases?: Record<string, string>;
+};
+
+export const DEFAULT_CUSTOM_MODELS_PATH = join(
+  homedir(),
+  ".openclaw",
+  "clawd-router",
+  "models.json",
+);
+
+const DEFAULT_MAX_OUTPUT = 8192;
+
+const CUSTOM_MODEL_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: 'OpenRouter model ID, e.g. "mistralai/mistral-large"' },
+    name: { type: "string" },
+    inputPrice: { type: "number", minimum: 0, description: "USD per 1M input tokens" },
+    outputPrice: { type: "number", minimum: 0, description: "USD per 1M output tokens" },
+    contextWindow: { type: "integer", minimum: 1 },
+    maxOutput: { type: "integer", minimum: 1 },
+    reasoning: { type: "boolean" },
+    vision: { type: "boolean" },
+    tools: { type: "boolean" },
+    jsonSchema: { type: "boolean" },
+  },
+  required: ["id", "inputPrice", "outputPrice", "contextWindow"],
+  additionalProperties: false,
+};
+
+/**
+ * JSON Schemas for the plugin config `models` and `aliases` keys.
+ * Mirrored in openclaw.plugin.json under configSchema.properties.
+ */
+export const CUSTOM_MODELS_CONFIG_SCHEMA: { models: JsonSchema; aliases: JsonSchema } = {
+  models: {
+    type: "array",
+    description: "Extra models the router can price, context-check and route to",
+    items: CUSTOM_MODEL_SCHEMA,
+  },
+  aliases: {
+    type: "object",
+    description: "Extra model aliases (alias → model ID or router profile)",
+    additionalProperties: { type: "string" },
+  },
+};
+
+const FILE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: CUSTOM_MODELS_CONFIG_SCHEMA,
+  additionalProperties: false,
+};
+
+/** Raised when custom models or aliases fail validation. */
+export class CustomModelsConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid custom models config:\n  - ${issues.join("\n  - ")}`);
+    this.name = "CustomModelsConfigError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a raw `{ models, aliases }` object. Returns human-readable issues
+ * (empty when valid).
+ *
+ * @param path - Prefix for issue paths ("models.json" or "config")
+ */
+export function validateCustomModels(value: unknown, path: string): string[] {
+  const issues = validateSchema(value, FILE_SCHEMA, path);
+  if (issues.length > 0) return issues;
+
+  const config = value as CustomModelsConfig;
+  const seen = new Set<string>();
+  (config.models ?? []).forEach((m, i) => {
+    if (!m.id.trim()) issues.push(`${path}.models[${i}].id: must not be empty`);
+    if (isRoutingProfile(m.id)) {
+      issues.push(`${path}.models[${i}].id: "${m.id}" is a router profile`);
+    }
+    if (seen.has(m.id)) issues.push(`${path}.models[${i}].id: duplicate model "${m.id}"`);
+    seen.add(m.id);
+  });
+  for (const [alias, target] of Object.entries(config.aliases ?? {})) {
+    if (isRoutingProfile(alias.trim().toLowerCase())) {
+      issues.push(`${path}.aliases.${alias}: can't redefine router profile "${alias}"`);
+    }
+    if (!target.trim()) issues.push(`${path}.aliases.${alias}: target must not be empty`);
+  }
+  return issues;
+}
+
+function toCatalogModel(m: CustomModel): OpenRouterModel {
+  return {
+    id: m.id,
+    name: m.name ?? m.id,
+    inputPrice: m.inputPrice,
+    outputPrice: m.outputPrice,
+    contextWindow: m.contextWindow,
+    maxOutput: m.maxOutput ?? Math.min(DEFAULT_MAX_OUTPUT, m.contextWindow),
+    reasoning: m.reasoning,
+    vision: m.vision,
+    tools: m.tools,
+    jsonSchema: m.jsonSchema,
+  };
+}
+
+/**
+ * Read and validate the custom models file and plugin config, merge them
+ * (plugin config wins) and make them active (see setCustomModels).
+ *
+ * @param pluginConfig - The plugin config; only `models` and `aliases` are read
+ * @param filePath - Custom models file (skipped when missing)
+ * @returns The merged models and aliases
+ * @throws CustomModelsConfigError listing every problem found (nothing is applied)
+ */
+export function loadCustomModels(
+  pluginConfig: Record<string, unknown> | undefined,
+  filePath: string = DEFAULT_CUSTOM_MODELS_PATH,
+): Required<CustomModelsConfig> {
+  const issues: string[] = [];
+  const sources: CustomModelsConfig[] = [];
+
+  if (existsSync(filePath)) {
+    try {
+      const fromFile = JSON.parse(readTextFileSync(filePath)) as unknown;
+      const fileIssues = validateCustomModels(fromFile, filePath);
+      if (fileIssues.length > 0) issues.push(...fileIssues);
+      else sources.push(fromFile as CustomModelsConfig);
+    } catch (err) {
+      issues.push(`${filePath}: ${(err as Error).message}`);
+    }
+  }
+
+  const fromConfig: CustomModelsConfig = {};
+  if (pluginConfig?.models !== undefined) fromConfig.models = pluginConfig.models as CustomModel[];
+  if (pluginConfig?.aliases !== undefined) {
+    fromConfig.aliases = pluginConfig.aliases as Record<string, string>;
+  }
+  const configIssues = validateCustomModels(fromConfig, "config");
+  if (configIssues.length > 0) issues.push(...configIssues);
+  else sources.push(fromConfig);
+
+  if (issues.length > 0) {
+    throw new CustomModelsConfigError(issues);
+  }
+
+  const models = new Map<string, CustomModel>();
+  const aliases: Record<string, string> = {};
+  for (const source of sources) {
+    for (const m of source.models ?? []) models.set(m.id, m);
+    Object.assign(aliases, source.aliases);
+  }
+  const merged = { models: [...models.values()], aliases };
+  setCustomModels(merged.models.map(toCatalogModel), aliases);
+  return merged;
+}
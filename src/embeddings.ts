@@ -0,0 +1,180 @@
+/**
+ * Embedding Models
+ *
+ * /v1/embeddings requests go to embedding models, which are priced per
+ * input token and kept apart from the chat catalog. The built-in list can
+ * be extended or repriced, and the default changed, through the plugin
+ * config `embeddings` key.
+ *
+ * Router IDs ("auto", "clawd-router/eco", ...) use the default model;
+ * explicit IDs and aliases are sent as given. There is no fallback to a
+ * different embedding model: vectors from different models can't be
+ * compared, so a silent switch would corrupt the caller's index.
+ */
+
+import { isRoutingProfile, resolveModelAlias } from "./models.js";
+import { validateSchema, type JsonSchema } from "./router/schema.js";
+
+/** An embedding model. Price is USD per 1M input tokens. */
+export type EmbeddingModel = {
+  id: string;
+  name?: string;
+  inputPrice: number;
+  /** Output vector size, for reference */
+  dimensions?: number;
+};
+
+export type EmbeddingsConfig = {
+  /** Model used for router IDs (default: DEFAULT_EMBEDDING_MODEL) */
+  default?: string;
+  /** Extra embedding models; replace built-in ones with the same ID */
+  models?: EmbeddingModel[];
+};
+
+/** Embedding models and the default, ready for lookups. */
+export type EmbeddingCatalog = {
+  models: Map<string, EmbeddingModel>;
+  defaultModel: string;
+};
+
+export const DEFAULT_EMBEDDING_MODEL = "openai/text-embedding-3-small";
+
+export const EMBEDDING_MODELS: EmbeddingModel[] = [
+  {
+    id: "openai/text-embedding-3-small",
+    name: "Text Embedding 3 Small",
+    inputPrice: 0.02,
+    dimensions: 1536,
+  },
+  {
+    id: "openai/text-embedding-3-large",
+    name: "Text Embedding 3 Large",
+    inputPrice: 0.13,
+    dimensions: 3072,
+  },
+  {
+    id: "openai/text-embedding-ada-002",
+    name: "Text Embedding Ada 002",
+    inputPrice: 0.1,
+    dimensions: 1536,
+  },
+  {
+    id: "google/gemini-embedding-001",
+    name: "Gemini Embedding 001",
+    inputPrice: 0.15,
+    dimensions: 3072,
+  },
+  {
+    id: "mistralai/mistral-embed-2312",
+    name: "Mistral Embed",
+    inputPrice: 0.1,
+    dimensions: 1024,
+  },
+];
+
+const EMBEDDING_MODEL_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+    inputPrice: { type: "number", minimum: 0, description: "USD per 1M input tokens" },
+    dimensions: { type: "integer", minimum: 1 },
+  },
+  required: ["id", "inputPrice"],
+  additionalProperties: false,
+};
+
+/**
+ * JSON Schema for the plugin config `embeddings` object.
+ * Mirrored in openclaw.plugin.json under configSchema.properties.embeddings.
+ */
+export const EMBEDDINGS_CONFIG_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Embedding models for /v1/embeddings and the one router IDs use",
+  properties: {
+    default: { type: "string", description: "Model used for router IDs such as auto" },
+    models: { type: "array", items: EMBEDDING_MODEL_SCHEMA },
+  },
+  additionalProperties: false,
+};
+
+/** Raised when the embeddings config fails validation. */
+export class EmbeddingsConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid embeddings config:\n  - ${issues.join("\n  - ")}`);
+    this.name = "EmbeddingsConfigError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a raw embeddings config. Returns human-readable issues (empty when valid).
+ */
+export function validateEmbeddingsConfig(value: unknown): string[] {
+  const issues = validateSchema(value, EMBEDDINGS_CONFIG_SCHEMA, "embeddings");
+  if (issues.length > 0) return issues;
+
+  const config = value as EmbeddingsConfig;
+  const seen = new Set<string>();
+  (config.models ?? []).forEach((m, i) => {
+    if (!m.id.trim()) issues.push(`embeddings.models[${i}].id: must not be empty`);
+    if (seen.has(m.id)) issues.push(`embeddings.models[${i}].id: duplicate model "${m.id}"`);
+    seen.add(m.id);
+  });
+  if (config.default !== undefined) {
+    const known = seen.has(config.default) || EMBEDDING_MODELS.some((m) => m.id === config.default);
+    if (!known) {
+      issues.push(
+        `embeddings.default: "${config.default}" is not a built-in or configured embedding model`,
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validate the plugin config `embeddings` value.
+ *
+ * @returns undefined when no embeddings config is set (defaults apply)
+ * @throws EmbeddingsConfigError listing every problem found
+ */
+export function resolveEmbeddingsConfig(value: unknown): EmbeddingsConfig | undefined {
+  if (value === undefined || value === null) return undefined;
+  const issues = validateEmbeddingsConfig(value);
+  if (issues.length > 0) {
+    throw new EmbeddingsConfigError(issues);
+  }
+  return value as EmbeddingsConfig;
+}
+
+/**
+ * Merge configured embedding models onto the built-in list.
+ */
+export function buildEmbeddingCatalog(config: EmbeddingsConfig = {}): EmbeddingCatalog {
+  const models = new Map(EMBEDDING_MODELS.map((m) => [m.id, m]));
+  for (const m of config.models ?? []) models.set(m.id, m);
+  return { models, defaultModel: config.default ?? DEFAULT_EMBEDDING_MODEL };
+}
+
+/**
+ * Pick the embedding model for a requested ID: router IDs get the default,
+ * aliases are resolved, anything else is used as given.
+ */
+export function selectEmbeddingModel(requested: string, catalog: EmbeddingCatalog): string {
+  const resolved = resolveModelAlias(requested);
+  return isRoutingProfile(resolved.toLowerCase()) ? catalog.defaultModel : resolved;
+}
+
+/**
+ * Price embedding input tokens. Unknown models cost 0.
+ */
+export function embeddingCost(
+  model: string,
+  promptTokens: number,
+  catalog: EmbeddingCatalog,
+): number {
+  const price = catalog.models.get(model)?.inputPrice ?? 0;
+  return (promptTokens / 1_000_000) * price;
+}
@@ -0,0 +1,201 @@
+/**
+ * Offline Routing Evaluation
+ *
+ * Runs route() over a labeled JSONL dataset and reports how often the
+ * chosen tier matches the label, where it goes wrong, how often the rules
+ * are ambiguous, and what the routed traffic would cost versus the
+ * Claude Opus baseline.
+ *
+ * Dataset lines: {"prompt": "...", "expectedTier": "MEDIUM", "systemPrompt"?: "...",
+ * "maxTokens"?: 4096, "id"?: "..."}. Blank lines and lines starting with "//" are skipped.
+ */
+
+import { explainRouteWithClassifier } from "./router/index.js";
+import type { ClassifierRouterOptions } from "./router/index.js";
+import type { Tier } from "./router/types.js";
+import { readTextFile } from "./fs-read.js";
+
+export const TIERS: Tier[] = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"];
+
+export type EvalCase = {
+  id: string;
+  prompt: string;
+  systemPrompt?: string;
+  expectedTier: Tier;
+  maxTokens?: number;
+};
+
+export type EvalMiss = {
+  id: string;
+  prompt: string;
+  expected: Tier;
+  predicted: Tier;
+  reasoning: string;
+};
+
+export type EvalReport = {
+  total: number;
+  correct: number;
+  accuracy: number;
+  /** confusion[expected][predicted] = count */
+  confusion: Record<Tier, Record<Tier, number>>;
+  perTier: Record<Tier, { total: number; precision: number; recall: number }>;
+  ambiguous: number;
+  ambiguityRate: number;
+  cost: { routed: number; baseline: number; savings: number };
+  misses: EvalMiss[];
+};
+
+/**
+ * Parse a labeled JSONL dataset.
+ *
+ * @throws Error naming the first malformed line
+ */
+export function parseEvalDataset(content: string): EvalCase[] {
+  const cases: EvalCase[] = [];
+  const lines = content.split("\n");
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("//")) return;
+
+    let entry: Record<string, unknown>;
+    try {
+      entry = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      throw new Error(`line ${i + 1}: invalid JSON`);
+    }
+    if (typeof entry.prompt !== "string" || !entry.prompt.trim()) {
+      throw new Error(`line ${i + 1}: "prompt" must be a non-empty string`);
+    }
+    const expected = String(entry.expectedTier ?? "").toUpperCase() as Tier;
+    if (!TIERS.includes(expected)) {
+      throw new Error(`line ${i + 1}: "expectedTier" must be one of ${TIERS.join(", ")}`);
+    }
+
+    cases.push({
+      id: typeof entry.id === "string" ? entry.id : `line-${i + 1}`,
+      prompt: entry.prompt,
+      systemPrompt: typeof entry.systemPrompt === "string" ? entry.systemPrompt : undefined,
+      expectedTier: expected,
+      maxTokens: typeof entry.maxTokens === "number" ? entry.maxTokens : undefined,
+    });
+  });
+
+  return cases;
+}
+
+/** Read and parse a labeled JSONL dataset from disk. */
+export async function loadEvalDataset(filePath: string): Promise<EvalCase[]> {
+  return parseEvalDataset(await readTextFile(filePath));
+}
+
+function emptyMatrix(): Record<Tier, Record<Tier, number>> {
+  const row = () => ({ SIMPLE: 0, MEDIUM: 0, COMPLEX: 0, REASONING: 0 });
+  return { SIMPLE: row(), MEDIUM: row(), COMPLEX: row(), REASONING: row() };
+}
+
+/**
+ * Route every case and aggregate the results.
+ * The LLM classifier in options (if any) is used like it would be in the proxy.
+ */
+export async function evaluateRouting(
+  cases: EvalCase[],
+  options: ClassifierRouterOptions,
+): Promise<EvalReport> {
+  const confusion = emptyMatrix();
+  const misses: EvalMiss[] = [];
+  let correct = 0;
+  let ambiguous = 0;
+  let routedCost = 0;
+  let baselineCost = 0;
+
+  for (const c of cases) {
+    const { decision, scoring } = await explainRouteWithClassifier(
+      c.prompt,
+      c.systemPrompt,
+      c.maxTokens ?? 4096,
+      options,
+    );
+    confusion[c.expectedTier][decision.tier]++;
+    if (scoring.tier === null) ambiguous++;
+    routedCost += decision.costEstimate;
+    baselineCost += decision.baselineCost;
+
+    if (decision.tier === c.expectedTier) {
+      correct++;
+    } else {
+      misses.push({
+        id: c.id,
+        prompt: c.prompt,
+        expected: c.expectedTier,
+        predicted: decision.tier,
+        reasoning: decision.reasoning,
+      });
+    }
+  }
+
+  const perTier = {} as EvalReport["perTier"];
+  for (const tier of TIERS) {
+    const total = TIERS.reduce((sum, t) => sum + confusion[tier][t], 0);
+    const predicted = TIERS.reduce((sum, t) => sum + confusion[t][tier], 0);
+    const hits = confusion[tier][tier];
+    perTier[tier] = {
+      total,
+      precision: predicted > 0 ? hits / predicted : 0,
+      recall: total > 0 ? hits / total : 0,
+    };
+  }
+
+  const total = cases.length;
+  return {
+    total,
+    correct,
+    accuracy: total > 0 ? correct / total : 0,
+    confusion,
+    perTier,
+    ambiguous,
+    ambiguityRate: total > 0 ? ambiguous / total : 0,
+    cost: {
+      routed: routedCost,
+      baseline: baselineCost,
+      savings: baselineCost > 0 ? Math.max(0, (baselineCost - routedCost) / baselineCost) : 0,
+    },
+    misses,
+  };
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+/** Render a report as plain text for the CLI. */
+export function formatEvalReport(report: EvalReport, maxMisses = 10): string {
+  const lines: string[] = [];
+  lines.push(`Cases:        ${report.total}`);
+  lines.push(`Accuracy:     ${pct(report.accuracy)} (${report.correct}/${report.total})`);
+  lines.push(`Ambiguous:    ${pct(report.ambiguityRate)} (${report.ambiguous})`);
+  lines.push(
+    `Cost:         $${report.cost.routed.toFixed(4)} routed vs $${report.cost.baseline.toFixed(4)} ` +
+      `baseline (${pct(report.cost.savings)} saved)`,
+  );
+  lines.push("");
+  lines.push("Confusion (rows = expected, columns = predicted):");
+  lines.push(`${"".padEnd(11)}${TIERS.map((t) => t.padStart(10)).join("")}${"recall".padStart(9)}`);
+  for (const expected of TIERS) {
+    const cells = TIERS.map((p) => String(report.confusion[expected][p]).padStart(10)).join("");
+    lines.push(`${expected.padEnd(11)}${cells}${pct(report.perTier[expected].recall).padStart(9)}`);
+  }
+  lines.push(
+    `${"precision".padEnd(11)}${TIERS.map((t) => pct(report.perTier[t].precision).padStart(10)).join("")}`,
+  );
+
+  if (report.misses.length > 0) {
+    lines.push("");
+    lines.push(`Misses (${Math.min(maxMisses, report.misses.length)} of ${report.misses.length}):`);
+    for (const miss of report.misses.slice(0, maxMisses)) {
+      const prompt = miss.prompt.length > 60 ? `${miss.prompt.slice(0, 57)}...` : miss.prompt;
+      lines.push(`  ${miss.id}: expected ${miss.expected}, got ${miss.predicted} — ${prompt}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -5,10 +5,27 @@
  * and starts the proxy in gateway mode.
  */
 
-import type { OpenClawPluginDefinition, OpenClawPluginApi } from "./types.js";
+import type {
+  OpenClawPluginDefinition,
+  OpenClawPluginApi,
+  OpenClawPluginCommandDefinition,
+} from "./types.js";
 import { clawdRouterProvider, setActiveProxyPort } from "./provider.js";
 import { startProxy, getProxyPort } from "./proxy.js";
 import { OPENCLAW_MODELS } from "./models.js";
+import {
+  DEFAULT_ROUTING_CONFIG,
+  RoutingConfigError,
+  resolveRoutingConfig,
+} from "./router/index.js";
+import type { RoutingConfig } from "./router/index.js";
+import { getUsageStats, parseWindow, formatStatsReport } from "./stats.js";
+import { resolveBudgets, type BudgetsConfig } from "./budget.js";
+import { resolveSessionConfig, type SessionConfig } from "./session.js";
+import { resolveCatalogConfig, type CatalogConfig } from "./catalog.js";
+import { loadCustomModels } from "./custom-models.js";
+import { resolveProviders, type ProvidersConfig } from "./providers.js";
+import { resolveEmbeddingsConfig, type EmbeddingsConfig } from "./embeddings.js";
 import { readTextFileSync } from "./fs-read.js";
 import { VERSION } from "./version.js";
 import {
@@ -101,16 +118,8 @@ function injectModelsConfig(logger: { info: (msg: string) => void }): void {
       entry.apiKey = expectedApiKey;
       changed = true;
     }
-    const existingIds = new Set(
-      Array.isArray(entry.models)
-        ? (entry.models as { id: string }[]).map((m) => m.id)
-        : [],
-    );
-    const expectedIds = new Set(OPENCLAW_MODELS.map((m) => m.id));
-    if (
-      existingIds.size !== expectedIds.size ||
-      [...expectedIds].some((id) => !existingIds.has(id))
-    ) {
+    // Compare whole definitions so edited custom models (prices, limits) are picked up
+    if (JSON.stringify(entry.models) !== JSON.stringify(OPENCLAW_MODELS)) {
       entry.models = OPENCLAW_MODELS;
       changed = true;
     }
@@ -149,6 +158,124 @@ function injectModelsConfig(logger: { info: (msg: string) => void }): void {
   }
 }
 
+/**
+ * Build the routing config from the plugin config `routing` overrides.
+ * Invalid overrides are reported and the defaults are used instead. Tier
+ * models are checked by startProxy() once the catalog is synced, since
+ * overrides may name models only the OpenRouter listing has.
+ */
+function loadRoutingConfig(api: OpenClawPluginApi): RoutingConfig {
+  try {
+    return resolveRoutingConfig(DEFAULT_ROUTING_CONFIG, api.pluginConfig?.routing);
+  } catch (err) {
+    api.logger.error(`[clawd-router] ${(err as Error).message}`);
+    api.logger.warn("[clawd-router] Falling back to default routing config");
+    return DEFAULT_ROUTING_CONFIG;
+  }
+}
+
+/**
+ * Apply operator-defined models and aliases from ~/.openclaw/clawd-router/models.json
+ * and the plugin config. Invalid definitions are reported and none are applied.
+ */
+function applyCustomModels(api: OpenClawPluginApi): void {
+  try {
+    const { models, aliases } = loadCustomModels(api.pluginConfig);
+    const aliasCount = Object.keys(aliases).length;
+    if (models.length > 0 || aliasCount > 0) {
+      api.logger.info(`[clawd-router] Custom models: ${models.length}, aliases: ${aliasCount}`);
+    }
+  } catch (err) {
+    api.logger.error(`[clawd-router] ${(err as Error).message}`);
+    api.logger.warn("[clawd-router] Custom models and aliases are NOT applied");
+  }
+}
+
+/**
+ * Read the plugin config `budgets` limits.
+ * Invalid budgets are reported and the proxy runs without limits.
+ */
+function loadBudgets(api: OpenClawPluginApi): BudgetsConfig | undefined {
+  try {
+    return resolveBudgets(api.pluginConfig?.budgets);
+  } catch (err) {
+    api.logger.error(`[clawd-router] ${(err as Error).message}`);
+    api.logger.warn("[clawd-router] Spend budgets are NOT enforced");
+    return undefined;
+  }
+}
+
+/**
+ * Read the plugin config `sessions` settings.
+ * Invalid settings are reported and the defaults are used instead.
+ */
+function loadSessionConfig(api: OpenClawPluginApi): SessionConfig | undefined {
+  try {
+    return resolveSessionConfig(api.pluginConfig?.sessions);
+  } catch (err) {
+    api.logger.error(`[clawd-router] ${(err as Error).message}`);
+    api.logger.warn("[clawd-router] Falling back to default session settings");
+    return undefined;
+  }
+}
+
+/**
+ * Read the plugin config `catalog` settings.
+ * Invalid settings are reported and the defaults are used instead.
+ */
+function loadCatalogConfig(api: OpenClawPluginApi): CatalogConfig | undefined {
+  try {
+    return resolveCatalogConfig(api.pluginConfig?.catalog);
+  } catch (err) {
+    api.logger.error(`[clawd-router] ${(err as Error).message}`);
+    api.logger.warn("[clawd-router] Falling back to default catalog settings");
+    return undefined;
+  }
+}
+
+/**
+ * Read the plugin config `providers` upstreams.
+ * Invalid providers are reported and everything goes to OpenRouter.
+ */
+function loadProviders(api: OpenClawPluginApi): ProvidersConfig | undefined {
+  try {
+    return resolveProviders(api.pluginConfig?.providers);
+  } catch (err) {
+    api.logger.error(`[clawd-router] ${(err as Error).message}`);
+    api.logger.warn("[clawd-router] Custom providers are NOT used; all models go to OpenRouter");
+    return undefined;
+  }
+}
+
+/**
+ * Read the plugin config `embeddings` settings.
+ * Invalid settings are reported and the built-in embedding models are used.
+ */
+function loadEmbeddingsConfig(api: OpenClawPluginApi): EmbeddingsConfig | undefined {
+  try {
+    return resolveEmbeddingsConfig(api.pluginConfig?.embeddings);
+  } catch (err) {
+    api.logger.error(`[clawd-router] ${(err as Error).message}`);
+    api.logger.warn("[clawd-router] Falling back to built-in embedding models");
+    return undefined;
+  }
+}
+
+const statsCommand: OpenClawPluginCommandDefinition = {
+  name: "stats",
+  description: "Show clawd-router usage, spend and savings (e.g. /stats 24h; default 7d)",
+  acceptsArgs: true,
+  handler: async (ctx) => {
+    const window = ctx.args?.trim() || "7d";
+    try {
+      const stats = await getUsageStats(parseWindow(window));
+      return { text: formatStatsReport(stats, window) };
+    } catch (err) {
+      return { text: `[clawd-router] ${(err as Error).message}`, isError: true };
+    }
+  },
+};
+
 let activeProxyHandle: Awaited<ReturnType<typeof startProxy>> | null = null;
 
 async function register(api: OpenClawPluginApi): Promise<void> {
@@ -166,7 +293,15 @@ async function register(api: OpenClawPluginApi): Promise<void> {
   }
 
   api.registerProvider(clawdRouterProvider);
+  applyCustomModels(api);
   injectModelsConfig(api.logger);
+  api.registerCommand(statsCommand);
+  const routingConfig = loadRoutingConfig(api);
+  const budgets = loadBudgets(api);
+  const sessions = loadSessionConfig(api);
+  const catalog = loadCatalogConfig(api);
+  const providers = loadProviders(api);
+  const embeddings = loadEmbeddingsConfig(api);
   api.registerService({
     id: "clawd-router-proxy",
     start: () => {},
@@ -183,11 +318,38 @@ async function register(api: OpenClawPluginApi): Promise<void> {
     return;
   }
 
-  startProxy({ port: getProxyPort() || 8403 })
+  const start = (config: RoutingConfig) =>
+    startProxy({
+      port: getProxyPort() || 8403,
+      routingConfig: config,
+      budgets,
+      sessions,
+      catalog,
+      providers,
+      embeddings,
+      onCatalogUpdate: ({ source, models, error }) => {
+        if (error) api.logger.warn(`[clawd-router] ${error}`);
+        else api.logger.info(`[clawd-router] Model catalog refreshed: ${models} models (${source})`);
+      },
+    });
+
+  start(routingConfig)
+    .catch((err) => {
+      // Overrides naming models the synced catalog doesn't have
+      if (!(err instanceof RoutingConfigError) || routingConfig === DEFAULT_ROUTING_CONFIG) {
+        throw err;
+      }
+      api.logger.error(`[clawd-router] ${err.message}`);
+      api.logger.warn("[clawd-router] Falling back to default routing config");
+      return start(DEFAULT_ROUTING_CONFIG);
+    })
     .then((handle) => {
       activeProxyHandle = handle;
       setActiveProxyPort(getProxyPort());
       api.logger.info(`[clawd-router] Proxy listening on http://127.0.0.1:${getProxyPort()}`);
+      const { source, models, error } = handle.catalog;
+      api.logger.info(`[clawd-router] Model catalog: ${models} models (${source})`);
+      if (error) api.logger.warn(`[clawd-router] ${error}`);
     })
     .catch((err) =>
       api.logger.error(`[clawd-router] Failed to start proxy: ${(err as Error).message}`),
@@ -211,15 +373,107 @@ export {
   OPENCLAW_MODELS,
   OPENROUTER_MODELS,
   buildProviderModels,
+  buildModelPricing,
   MODEL_ALIASES,
   resolveModelAlias,
   getModelContextWindow,
+  isCatalogModel,
+  setCatalogModels,
+  getCatalogModels,
+  setCustomModels,
+  getModelAliases,
 } from "./models.js";
 export {
   route,
+  explainRoute,
+  routeWithClassifier,
+  explainRouteWithClassifier,
+  createLLMClassifier,
   DEFAULT_ROUTING_CONFIG,
   getFallbackChain,
   getFallbackChainFiltered,
+  filterChainByContext,
   calculateModelCost,
+  resolveRoutingConfig,
+  RoutingConfigError,
+  ROUTING_CONFIG_SCHEMA,
+  estimateTokens,
+  getTokenizerFamily,
+} from "./router/index.js";
+export type {
+  RoutingDecision,
+  RoutingConfig,
+  Tier,
+  RouteExplanation,
+  LLMClassifier,
+  ScoringResult,
+  TokenEstimator,
+  TokenizerFamily,
 } from "./router/index.js";
-export type { RoutingDecision, RoutingConfig, Tier } from "./router/index.js";
+export { getUsageStats, computeStats, parseWindow, formatStatsReport } from "./stats.js";
+export type { UsageStats } from "./stats.js";
+export {
+  BudgetTracker,
+  BudgetConfigError,
+  resolveBudgets,
+  validateBudgets,
+  BUDGETS_CONFIG_SCHEMA,
+} from "./budget.js";
+export type { BudgetsConfig, BudgetConfig, BudgetLimit, BudgetCheck } from "./budget.js";
+export {
+  SessionStore,
+  SessionConfigError,
+  sessionKey,
+  resolveSessionConfig,
+  validateSessionConfig,
+  SESSION_CONFIG_SCHEMA,
+} from "./session.js";
+export type { SessionConfig, SessionEntry } from "./session.js";
+export {
+  syncCatalog,
+  loadCatalog,
+  refreshCatalog,
+  startCatalogRefresh,
+  mergeCatalog,
+  parseModelListing,
+  resolveCatalogConfig,
+  validateCatalogConfig,
+  CatalogConfigError,
+  CATALOG_CONFIG_SCHEMA,
+} from "./catalog.js";
+export type { CatalogConfig, CatalogStatus, CatalogSource } from "./catalog.js";
+export {
+  loadCustomModels,
+  validateCustomModels,
+  CustomModelsConfigError,
+  CUSTOM_MODELS_CONFIG_SCHEMA,
+  DEFAULT_CUSTOM_MODELS_PATH,
+} from "./custom-models.js";
+export type { CustomModel, CustomModelsConfig } from "./custom-models.js";
+export {
+  createUpstreamResolver,
+  resolveProviders,
+  validateProviders,
+  ProvidersConfigError,
+  PROVIDERS_CONFIG_SCHEMA,
+} from "./providers.js";
+export type { ProviderConfig, ProvidersConfig, Upstream, UpstreamResolver } from "./providers.js";
+export {
+  fromAnthropicRequest,
+  toAnthropicMessage,
+  createAnthropicStream,
+  anthropicError,
+} from "./anthropic.js";
+export { fromResponsesRequest, toResponsesObject, createResponsesStream } from "./responses.js";
+export {
+  EMBEDDING_MODELS,
+  DEFAULT_EMBEDDING_MODEL,
+  EMBEDDINGS_CONFIG_SCHEMA,
+  EmbeddingsConfigError,
+  validateEmbeddingsConfig,
+  resolveEmbeddingsConfig,
+  buildEmbeddingCatalog,
+  selectEmbeddingModel,
+  embeddingCost,
+} from "./embeddings.js";
+export type { EmbeddingModel, EmbeddingsConfig, EmbeddingCatalog } from "./embeddings.js";
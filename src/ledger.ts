@@ -0,0 +1,133 @@
+/**
+ * Usage Ledger
+ *
+ * Append-only JSONL log of every proxied request, one file per UTC day:
+ *   ~/.openclaw/clawd-router/usage-YYYY-MM-DD.jsonl
+ *
+ * Cost is computed from the upstream `usage` token counts (not estimates)
+ * using the same pricing and Opus baseline as calculateModelCost().
+ */
+
+import { appendFile, mkdir } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { calculateModelCost } from "./router/index.js";
+import { readTextFile } from "./fs-read.js";
+import type { ModelPricing } from "./router/index.js";
+import type { RoutingProfile, Tier } from "./router/types.js";
+
+export const DEFAULT_LEDGER_DIR = join(homedir(), ".openclaw", "clawd-router");
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type LedgerEntry = {
+  timestamp: string; // ISO 8601
+  requestedModel: string;
+  /** Model that produced the response (or the last one attempted on failure) */
+  model: string;
+  tier?: Tier;
+  profile?: RoutingProfile;
+  /** x-clawd-client header value, when sent */
+  client?: string;
+  /** Models tried before `model`, in order */
+  fallbacks: string[];
+  status: number;
+  latencyMs: number;
+  stream: boolean;
+  /**
+   * The client disconnected before the response finished. Usage of a stream
+   * cut off before its usage chunk is estimated from the text sent so far.
+   */
+  aborted?: boolean;
+  usage?: TokenUsage;
+  /** Actual cost in USD from usage (0 when usage is unknown) */
+  cost: number;
+  /** What the same tokens would have cost on the baseline model */
+  baselineCost: number;
+};
+
+/** Ledger file path for the UTC day of a timestamp. */
+export function ledgerFilePath(dir: string, date: Date): string {
+  return join(dir, `usage-${date.toISOString().slice(0, 10)}.jsonl`);
+}
+
+/**
+ * Extract token usage from an OpenAI-format response body or stream chunk.
+ * Returns undefined when the object carries no usage block.
+ */
+export function parseUsage(body: unknown): TokenUsage | undefined {
+  const usage = (body as { usage?: Record<string, unknown> } | null)?.usage;
+  if (!usage || typeof usage !== "object") return undefined;
+  const promptTokens = Number(usage.prompt_tokens ?? 0) || 0;
+  const completionTokens = Number(usage.completion_tokens ?? 0) || 0;
+  const totalTokens = Number(usage.total_tokens ?? promptTokens + completionTokens) || 0;
+  return { promptTokens, completionTokens, totalTokens };
+}
+
+/**
+ * Price actual token usage for a model.
+ */
+export function costFromUsage(
+  model: string,
+  usage: TokenUsage | undefined,
+  modelPricing: Map<string, ModelPricing>,
+  routingProfile?: RoutingProfile,
+): { cost: number; baselineCost: number } {
+  if (!usage) return { cost: 0, baselineCost: 0 };
+  const { costEstimate, baselineCost } = calculateModelCost(
+    model,
+    modelPricing,
+    usage.promptTokens,
+    usage.completionTokens,
+    routingProfile,
+  );
+  return { cost: costEstimate, baselineCost };
+}
+
+/**
+ * Append one entry to the ledger, creating the directory if needed.
+ */
+export async function appendLedgerEntry(
+  entry: LedgerEntry,
+  dir: string = DEFAULT_LEDGER_DIR,
+): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await appendFile(ledgerFilePath(dir, new Date(entry.timestamp)), `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Read ledger entries with timestamps in [since, until).
+ * Missing day files and malformed lines are skipped.
+ */
+export async function readLedgerEntries(
+  since: Date,
+  until: Date = new Date(),
+  dir: string = DEFAULT_LEDGER_DIR,
+): Promise<LedgerEntry[]> {
+  const entries: LedgerEntry[] = [];
+  const day = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), since.getUTCDate()));
+
+  while (day.getTime() < until.getTime()) {
+    const filePath = ledgerFilePath(dir, day);
+    if (existsSync(filePath)) {
+      for (const line of (await readTextFile(filePath)).split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line) as LedgerEntry;
+          const ts = Date.parse(entry.timestamp);
+          if (ts >= since.getTime() && ts < until.getTime()) entries.push(entry);
+        } catch {
+          // Partial write or hand-edited line — skip
+        }
+      }
+    }
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  return entries;
+}
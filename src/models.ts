@@ -1,15 +1,21 @@
 /**
  * OpenRouter Model Definitions for OpenClaw
  *
- * Maps 12 OpenRouter models to OpenClaw's ModelDefinitionConfig format.
+ * Maps 14 OpenRouter models (plus the virtual router profiles) to
+ * OpenClaw's ModelDefinitionConfig format.
  * All models use the "openai-completions" API since OpenRouter is OpenAI-compatible.
  *
- * Pricing is in USD per 1M tokens.
+ * Pricing is in USD per 1M tokens. The static list is the offline fallback;
+ * catalog.ts refreshes it from OpenRouter's /models listing via setCatalogModels().
+ * Operator-defined models and aliases (custom-models.ts) are layered on top
+ * via setCustomModels().
  */
 
 import type { ModelDefinitionConfig, ModelProviderConfig } from "./types.js";
+import type { ModelFilter, RoutingProfile } from "./router/types.js";
+import type { ModelPricing } from "./router/selector.js";
 
-type OpenRouterModel = {
+export type OpenRouterModel = {
   id: string;
   name: string;
   version?: string;
@@ -19,8 +25,34 @@ type OpenRouterModel = {
   maxOutput: number;
   reasoning?: boolean;
   vision?: boolean;
+  /** Supports tool/function calling (`tools`) */
+  tools?: boolean;
+  /** Supports `response_format` JSON output (json_object / json_schema) */
+  jsonSchema?: boolean;
 };
 
+/** Capabilities a request can require of the model serving it. */
+export type ModelCapability = "tools" | "jsonSchema" | "vision" | "reasoning";
+
+export type ModelCapabilities = Record<ModelCapability, boolean> & { maxOutput: number };
+
+/** What a request needs from a model (see capabilityFilter). */
+export type CapabilityRequirements = {
+  capabilities: ModelCapability[];
+  /** Requested max output tokens the model must be able to produce */
+  minOutputTokens?: number;
+};
+
+/** Virtual model IDs that run the router with the matching profile. */
+export const ROUTING_PROFILES: RoutingProfile[] = ["free", "eco", "auto", "premium"];
+
+/**
+ * Check whether a (resolved) model ID is a routing profile.
+ */
+export function isRoutingProfile(modelId: string): modelId is RoutingProfile {
+  return (ROUTING_PROFILES as string[]).includes(modelId);
+}
+
 export const MODEL_ALIASES: Record<string, string> = {
   claude: "anthropic/claude-sonnet-4-5",
   sonnet: "anthropic/claude-sonnet-4-5",
@@ -36,18 +68,30 @@ export const MODEL_ALIASES: Record<string, string> = {
   router: "auto",
 };
 
+/** Operator-defined aliases (lowercase), checked before MODEL_ALIASES. */
+let customAliases = new Map<string, string>();
+
+function lookupAlias(name: string): string | undefined {
+  return customAliases.get(name) ?? MODEL_ALIASES[name];
+}
+
+/** Built-in aliases merged with operator-defined ones (which win). */
+export function getModelAliases(): Record<string, string> {
+  return { ...MODEL_ALIASES, ...Object.fromEntries(customAliases) };
+}
+
 /**
  * Resolve a model alias to its full model ID.
  * Also strips "clawd-router/" prefix for direct model paths.
  */
 export function resolveModelAlias(model: string): string {
   const normalized = model.trim().toLowerCase();
-  const resolved = MODEL_ALIASES[normalized];
+  const resolved = lookupAlias(normalized);
   if (resolved) return resolved;
 
   if (normalized.startsWith("clawd-router/")) {
     const withoutPrefix = normalized.slice("clawd-router/".length);
-    const resolvedWithoutPrefix = MODEL_ALIASES[withoutPrefix];
+    const resolvedWithoutPrefix = lookupAlias(withoutPrefix);
     if (resolvedWithoutPrefix) return resolvedWithoutPrefix;
     return withoutPrefix;
   }
@@ -64,6 +108,30 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     contextWindow: 1_050_000,
     maxOutput: 128_000,
   },
+  {
+    id: "eco",
+    name: "Eco (Smart Router - Cost Optimized)",
+    inputPrice: 0,
+    outputPrice: 0,
+    contextWindow: 1_050_000,
+    maxOutput: 128_000,
+  },
+  {
+    id: "premium",
+    name: "Premium (Smart Router - Best Quality)",
+    inputPrice: 0,
+    outputPrice: 0,
+    contextWindow: 1_050_000,
+    maxOutput: 128_000,
+  },
+  {
+    id: "free",
+    name: "Free (Smart Router - Free Models Only)",
+    inputPrice: 0,
+    outputPrice: 0,
+    contextWindow: 163_840,
+    maxOutput: 8_192,
+  },
   {
     id: "google/gemini-2.5-flash-lite-preview",
     name: "Gemini 2.5 Flash Lite Preview",
@@ -72,6 +140,9 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     outputPrice: 0.4,
     contextWindow: 1_000_000,
     maxOutput: 65_536,
+    vision: true,
+    tools: true,
+    jsonSchema: true,
   },
   {
     id: "google/gemini-2.5-flash",
@@ -81,6 +152,9 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     outputPrice: 2.5,
     contextWindow: 1_000_000,
     maxOutput: 65_536,
+    vision: true,
+    tools: true,
+    jsonSchema: true,
   },
   {
     id: "google/gemini-2.5-pro",
@@ -92,6 +166,8 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     maxOutput: 65_536,
     reasoning: true,
     vision: true,
+    tools: true,
+    jsonSchema: true,
   },
   {
     id: "anthropic/claude-sonnet-4-5",
@@ -102,6 +178,8 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     contextWindow: 200_000,
     maxOutput: 64_000,
     reasoning: true,
+    vision: true,
+    tools: true,
   },
   {
     id: "anthropic/claude-opus-4-5",
@@ -112,6 +190,8 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     contextWindow: 200_000,
     maxOutput: 32_000,
     reasoning: true,
+    vision: true,
+    tools: true,
   },
   {
     id: "anthropic/claude-haiku-4-5",
@@ -121,6 +201,8 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     outputPrice: 5.0,
     contextWindow: 200_000,
     maxOutput: 8_192,
+    vision: true,
+    tools: true,
   },
   {
     id: "openai/gpt-4o",
@@ -131,6 +213,8 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     contextWindow: 128_000,
     maxOutput: 16_384,
     vision: true,
+    tools: true,
+    jsonSchema: true,
   },
   {
     id: "openai/gpt-4o-mini",
@@ -140,6 +224,9 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     outputPrice: 0.6,
     contextWindow: 128_000,
     maxOutput: 16_384,
+    vision: true,
+    tools: true,
+    jsonSchema: true,
   },
   {
     id: "openai/o3-mini",
@@ -150,6 +237,8 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     contextWindow: 128_000,
     maxOutput: 65_536,
     reasoning: true,
+    tools: true,
+    jsonSchema: true,
   },
   {
     id: "deepseek/deepseek-chat",
@@ -159,6 +248,7 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     outputPrice: 0.28,
     contextWindow: 128_000,
     maxOutput: 8_192,
+    tools: true,
   },
   {
     id: "deepseek/deepseek-r1",
@@ -170,8 +260,36 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
     maxOutput: 8_192,
     reasoning: true,
   },
+  {
+    id: "meta-llama/llama-3.3-70b-instruct:free",
+    name: "Llama 3.3 70B Instruct (free)",
+    version: "3.3",
+    inputPrice: 0,
+    outputPrice: 0,
+    contextWindow: 131_072,
+    maxOutput: 8_192,
+  },
+  {
+    id: "deepseek/deepseek-r1:free",
+    name: "DeepSeek R1 (free)",
+    version: "r1",
+    inputPrice: 0,
+    outputPrice: 0,
+    contextWindow: 163_840,
+    maxOutput: 8_192,
+    reasoning: true,
+  },
 ];
 
+/** Static or synced models (see setCatalogModels). */
+let syncedModels: OpenRouterModel[] = OPENROUTER_MODELS;
+/** Operator-defined models (see setCustomModels); they replace synced models with the same ID. */
+let customModels: OpenRouterModel[] = [];
+
+/** Active catalog: synced models plus custom ones. */
+let catalogModels: OpenRouterModel[] = OPENROUTER_MODELS;
+let catalogById = new Map(catalogModels.map((m) => [m.id, m]));
+
 function toOpenClawModel(m: OpenRouterModel): ModelDefinitionConfig {
   return {
     id: m.id,
@@ -190,18 +308,62 @@ function toOpenClawModel(m: OpenRouterModel): ModelDefinitionConfig {
   };
 }
 
-const ALIAS_MODELS: ModelDefinitionConfig[] = Object.entries(MODEL_ALIASES)
-  .map(([alias, targetId]) => {
-    const target = OPENROUTER_MODELS.find((m) => m.id === targetId);
-    if (!target) return null;
-    return toOpenClawModel({ ...target, id: alias, name: `${alias} → ${target.name}` });
-  })
-  .filter((m): m is ModelDefinitionConfig => m !== null);
+/** The curated and custom models (with synced fields) followed by the aliases. */
+function buildOpenClawModels(): ModelDefinitionConfig[] {
+  const aliasModels = Object.entries(getModelAliases())
+    .map(([alias, targetId]) => {
+      const target = catalogById.get(targetId);
+      if (!target) return null;
+      return toOpenClawModel({ ...target, id: alias, name: `${alias} → ${target.name}` });
+    })
+    .filter((m): m is ModelDefinitionConfig => m !== null);
 
-export const OPENCLAW_MODELS: ModelDefinitionConfig[] = [
-  ...OPENROUTER_MODELS.map(toOpenClawModel),
-  ...ALIAS_MODELS,
-];
+  const curated = new Set(OPENROUTER_MODELS.map((m) => m.id));
+  return [
+    ...OPENROUTER_MODELS.map((m) => toOpenClawModel(catalogById.get(m.id) ?? m)),
+    ...customModels.filter((m) => !curated.has(m.id)).map(toOpenClawModel),
+    ...aliasModels,
+  ];
+}
+
+/** Recompute the active catalog and OPENCLAW_MODELS from both layers. */
+function rebuildCatalog(): void {
+  const custom = new Set(customModels.map((m) => m.id));
+  catalogModels = [...syncedModels.filter((m) => !custom.has(m.id)), ...customModels];
+  catalogById = new Map(catalogModels.map((m) => [m.id, m]));
+  OPENCLAW_MODELS.splice(0, OPENCLAW_MODELS.length, ...buildOpenClawModels());
+}
+
+/** Models exposed to OpenClaw; updated in place by setCatalogModels(). */
+export const OPENCLAW_MODELS: ModelDefinitionConfig[] = buildOpenClawModels();
+
+/**
+ * Replace the synced catalog (pricing, context windows, capabilities).
+ * OPENCLAW_MODELS keeps the curated model IDs but takes their new fields;
+ * other models only feed the lookups below. Custom models still win.
+ */
+export function setCatalogModels(models: OpenRouterModel[]): void {
+  syncedModels = models;
+  rebuildCatalog();
+}
+
+/**
+ * Replace the operator-defined models and aliases. Custom models are listed
+ * in OPENCLAW_MODELS and override catalog models with the same ID; alias
+ * names are matched case-insensitively.
+ */
+export function setCustomModels(models: OpenRouterModel[], aliases: Record<string, string>): void {
+  customModels = models;
+  customAliases = new Map(
+    Object.entries(aliases).map(([alias, target]) => [alias.trim().toLowerCase(), target]),
+  );
+  rebuildCatalog();
+}
+
+/** The active catalog. */
+export function getCatalogModels(): OpenRouterModel[] {
+  return catalogModels;
+}
 
 /**
  * Build a ModelProviderConfig for Clawd-router.
@@ -216,12 +378,79 @@ export function buildProviderModels(baseUrl: string): ModelProviderConfig {
   };
 }
 
+/**
+ * Build model pricing map from OpenRouter models.
+ */
+export function buildModelPricing(): Map<string, ModelPricing> {
+  const map = new Map<string, ModelPricing>();
+  for (const m of catalogModels) {
+    map.set(m.id, {
+      inputPrice: m.inputPrice,
+      outputPrice: m.outputPrice,
+    });
+  }
+  return map;
+}
+
+/**
+ * Check whether a model ID is a real catalog model that requests can be
+ * routed to (virtual router IDs like "auto" are excluded).
+ */
+export function isCatalogModel(modelId: string): boolean {
+  return !isRoutingProfile(modelId) && catalogById.has(modelId);
+}
+
+/**
+ * Look up what a catalog model can do.
+ * Returns undefined for unknown models and router profiles.
+ */
+export function getModelCapabilities(modelId: string): ModelCapabilities | undefined {
+  const model = catalogById.get(modelId);
+  if (!model || isRoutingProfile(model.id)) return undefined;
+  return {
+    tools: model.tools ?? false,
+    jsonSchema: model.jsonSchema ?? false,
+    vision: model.vision ?? false,
+    reasoning: model.reasoning ?? false,
+    maxOutput: model.maxOutput,
+  };
+}
+
+/** Reasoning-string labels for capabilities (request field names where they exist). */
+const CAPABILITY_LABELS: Record<ModelCapability, string> = {
+  tools: "tools",
+  jsonSchema: "response_format",
+  vision: "vision",
+  reasoning: "reasoning",
+};
+
+/**
+ * Build a router ModelFilter accepting only catalog models that meet the
+ * requirements. Returns undefined when nothing is required.
+ */
+export function capabilityFilter(requirements: CapabilityRequirements): ModelFilter | undefined {
+  const { capabilities, minOutputTokens } = requirements;
+  if (capabilities.length === 0 && minOutputTokens === undefined) return undefined;
+
+  const labels = capabilities.map((c) => CAPABILITY_LABELS[c]);
+  if (minOutputTokens !== undefined) labels.push(`max_tokens ${minOutputTokens}`);
+
+  return {
+    reason: labels.join(", "),
+    accepts: (modelId) => {
+      const caps = getModelCapabilities(modelId);
+      if (!caps) return false;
+      if (minOutputTokens !== undefined && caps.maxOutput < minOutputTokens) return false;
+      return capabilities.every((c) => caps[c]);
+    },
+  };
+}
+
 /**
  * Get context window size for a model.
  * Returns undefined if model not found.
  */
 export function getModelContextWindow(modelId: string): number | undefined {
   const normalized = modelId.replace("clawd-router/", "");
-  const model = OPENROUTER_MODELS.find((m) => m.id === normalized);
-  return model?.contextWindow;
+  return catalogById.get(normalized)?.contextWindow;
 }
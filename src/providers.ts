@@ -0,0 +1,172 @@
+/**
+ * Upstream Providers
+ *
+ * Decides where each model ID is sent. OpenRouter serves everything by
+ * default; operators can add OpenAI-compatible providers (a vendor's own
+ * API, a local Ollama or llama.cpp server, any custom base URL), each with
+ * its own key and headers:
+ *
+ *   - IDs listed in a provider's `models` go to it unchanged
+ *   - otherwise "<name>/<model>" goes to provider <name> as "<model>"
+ *   - everything else goes to OpenRouter
+ *
+ * Providers are resolved per model, so a fallback chain can cross them.
+ */
+
+import { validateSchema, type JsonSchema } from "./router/schema.js";
+
+export type ProviderConfig = {
+  /** OpenAI-compatible API base, e.g. "http://127.0.0.1:11434/v1" */
+  baseUrl: string;
+  /** Bearer token sent as Authorization */
+  apiKey?: string;
+  /** Environment variable holding the bearer token (instead of apiKey) */
+  apiKeyEnv?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Full model IDs served by this provider, sent unchanged */
+  models?: string[];
+};
+
+/** Provider name → settings. "openrouter" overrides the built-in provider. */
+export type ProvidersConfig = Record<string, ProviderConfig>;
+
+/** Where to send one model's requests. */
+export type Upstream = {
+  provider: string;
+  baseUrl: string;
+  /** Model ID as the provider knows it */
+  model: string;
+  apiKey?: string;
+  headers: Record<string, string>;
+};
+
+export type UpstreamResolver = (modelId: string) => Upstream;
+
+export const OPENROUTER_PROVIDER = "openrouter";
+export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+const PROVIDER_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    baseUrl: { type: "string", description: "OpenAI-compatible API base URL" },
+    apiKey: { type: "string" },
+    apiKeyEnv: { type: "string", description: "Environment variable holding the API key" },
+    headers: { type: "object", additionalProperties: { type: "string" } },
+    models: {
+      type: "array",
+      items: { type: "string" },
+      description: 'Full model IDs served by this provider (besides "<name>/..." IDs)',
+    },
+  },
+  required: ["baseUrl"],
+  additionalProperties: false,
+};
+
+/**
+ * JSON Schema for the plugin config `providers` object.
+ * Mirrored in openclaw.plugin.json under configSchema.properties.providers.
+ */
+export const PROVIDERS_CONFIG_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "OpenAI-compatible upstreams besides OpenRouter, keyed by provider name",
+  additionalProperties: PROVIDER_SCHEMA,
+};
+
+/** Raised when the providers config fails validation. */
+export class ProvidersConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid providers config:\n  - ${issues.join("\n  - ")}`);
+    this.name = "ProvidersConfigError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a raw providers config. Returns human-readable issues (empty when valid).
+ */
+export function validateProviders(value: unknown): string[] {
+  const issues = validateSchema(value, PROVIDERS_CONFIG_SCHEMA, "providers");
+  if (issues.length > 0) return issues;
+
+  const claimed = new Map<string, string>();
+  for (const [name, provider] of Object.entries(value as ProvidersConfig)) {
+    const path = `providers.${name}`;
+    if (!name || name.includes("/")) {
+      issues.push(`${path}: provider names can't be empty or contain "/"`);
+    }
+    let url: URL | undefined;
+    try {
+      url = new URL(provider.baseUrl);
+    } catch {
+      // reported below
+    }
+    if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) {
+      issues.push(`${path}.baseUrl: must be an http(s) URL (got "${provider.baseUrl}")`);
+    }
+    if (provider.apiKey !== undefined && provider.apiKeyEnv !== undefined) {
+      issues.push(`${path}: set apiKey or apiKeyEnv, not both`);
+    }
+    for (const model of provider.models ?? []) {
+      const owner = claimed.get(model);
+      if (owner) issues.push(`${path}.models: "${model}" is already served by ${owner}`);
+      claimed.set(model, name);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validate the plugin config `providers` value.
+ *
+ * @returns undefined when no providers are configured
+ * @throws ProvidersConfigError listing every problem found
+ */
+export function resolveProviders(value: unknown): ProvidersConfig | undefined {
+  if (value === undefined || value === null) return undefined;
+  const issues = validateProviders(value);
+  if (issues.length > 0) {
+    throw new ProvidersConfigError(issues);
+  }
+  return value as ProvidersConfig;
+}
+
+/**
+ * Build the model → upstream lookup.
+ *
+ * @param providers - Configured providers (validated)
+ * @param openRouterApiKey - Key for the built-in OpenRouter provider
+ */
+export function createUpstreamResolver(
+  providers: ProvidersConfig = {},
+  openRouterApiKey?: string,
+): UpstreamResolver {
+  const toUpstream = (name: string, config: ProviderConfig | undefined, model: string) => ({
+    provider: name,
+    baseUrl: (config?.baseUrl ?? OPENROUTER_BASE_URL).replace(/\/+$/, ""),
+    model,
+    apiKey:
+      (config?.apiKeyEnv ? process.env[config.apiKeyEnv] : config?.apiKey) ??
+      (name === OPENROUTER_PROVIDER ? openRouterApiKey : undefined),
+    headers: { ...config?.headers },
+  });
+
+  const byModel = new Map<string, string>();
+  for (const [name, config] of Object.entries(providers)) {
+    for (const model of config.models ?? []) byModel.set(model, name);
+  }
+
+  return (modelId) => {
+    const listed = byModel.get(modelId);
+    if (listed) return toUpstream(listed, providers[listed], modelId);
+
+    const slash = modelId.indexOf("/");
+    const prefix = slash > 0 ? modelId.slice(0, slash) : "";
+    if (prefix && prefix !== OPENROUTER_PROVIDER && Object.hasOwn(providers, prefix)) {
+      return toUpstream(prefix, providers[prefix], modelId.slice(slash + 1));
+    }
+    return toUpstream(OPENROUTER_PROVIDER, providers[OPENROUTER_PROVIDER], modelId);
+  };
+}
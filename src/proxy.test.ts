@@ -0,0 +1,155 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { getProxyPort, startProxy, type ProxyHandle, type ProxyOptions } from "./proxy.js";
+
+const HARD_PROMPT =
+  "Design a distributed consensus algorithm for a sharded database, prove its safety " +
+  "step by step, and analyze the time complexity of leader election under partitions.";
+
+/** Fake OpenAI-compatible upstream answering every chat completion with usage. */
+let upstream: Server;
+let upstreamUrl: string;
+const upstreamModels: string[] = [];
+
+beforeAll(async () => {
+  upstream = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const { model } = JSON.parse(body) as { model: string };
+      upstreamModels.push(model);
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion",
+          model,
+          choices: [
+            { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+          ],
+          usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 },
+        }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+  upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => upstream.close(resolve));
+});
+
+let proxy: ProxyHandle | undefined;
+let proxyUrl: string;
+
+async function start(options: ProxyOptions = {}): Promise<void> {
+  proxy = await startProxy({
+    openRouterApiKey: "test-key",
+    disableLedger: true,
+    catalog: { enabled: false },
+    providers: { openrouter: { baseUrl: upstreamUrl } },
+    ...options,
+  });
+  proxyUrl = `http://127.0.0.1:${getProxyPort()}`;
+}
+
+afterEach(async () => {
+  await proxy?.close();
+  proxy = undefined;
+  upstreamModels.length = 0;
+});
+
+function chat(
+  messages: { role: string; content: string }[],
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  return fetch(`${proxyUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify({ model: "auto", messages }),
+  });
+}
+
+describe("session affinity", () => {
+  it("keeps a conversation on its first turn's model", async () => {
+    await start();
+    const first = await chat([{ role: "user", content: HARD_PROMPT }], {
+      "x-clawd-session": "s1",
+    });
+    const model = first.headers.get("x-clawd-model");
+    expect(first.status).toBe(200);
+
+    const fresh = await chat([{ role: "user", content: "thanks" }]);
+    expect(fresh.headers.get("x-clawd-model")).not.toBe(model);
+
+    const followUp = await chat([{ role: "user", content: "thanks" }], {
+      "x-clawd-session": "s1",
+    });
+    expect(followUp.headers.get("x-clawd-model")).toBe(model);
+    expect(upstreamModels.at(-1)).toBe(model);
+  });
+
+  it("doesn't share a session between clients", async () => {
+    await start();
+    const first = await chat([{ role: "user", content: HARD_PROMPT }], {
+      "x-clawd-session": "s1",
+      "x-clawd-client": "cli",
+    });
+
+    const other = await chat([{ role: "user", content: "thanks" }], {
+      "x-clawd-session": "s1",
+      "x-clawd-client": "ide",
+    });
+    expect(other.headers.get("x-clawd-model")).not.toBe(first.headers.get("x-clawd-model"));
+  });
+
+  it("routes every turn afresh when sessions are disabled", async () => {
+    await start({ sessions: { enabled: false } });
+    const first = await chat([{ role: "user", content: HARD_PROMPT }], {
+      "x-clawd-session": "s1",
+    });
+
+    const followUp = await chat([{ role: "user", content: "thanks" }], {
+      "x-clawd-session": "s1",
+    });
+    expect(followUp.headers.get("x-clawd-model")).not.toBe(first.headers.get("x-clawd-model"));
+  });
+});
+
+describe("budgets", () => {
+  it("flags requests past the soft limit and downgrades them", async () => {
+    await start({ budgets: { daily: { soft: 0.000001 }, onSoftLimit: "SIMPLE" } });
+    const first = await chat([{ role: "user", content: HARD_PROMPT }]);
+    expect(first.headers.get("x-clawd-budget")).toBeNull();
+    expect(first.headers.get("x-clawd-tier")).not.toBe("SIMPLE");
+
+    const second = await chat([{ role: "user", content: HARD_PROMPT }]);
+    expect(second.status).toBe(200);
+    expect(second.headers.get("x-clawd-budget")).toBe("soft");
+    expect(second.headers.get("x-clawd-tier")).toBe("SIMPLE");
+  });
+
+  it("rejects requests past the hard limit with 402 without calling upstream", async () => {
+    await start({ budgets: { daily: { hard: 0.000001 } } });
+    expect((await chat([{ role: "user", content: "hi" }])).status).toBe(200);
+
+    const blocked = await chat([{ role: "user", content: "hi" }]);
+    expect(blocked.status).toBe(402);
+    expect(blocked.headers.get("x-clawd-budget")).toBe("hard");
+    const body = (await blocked.json()) as { error: { message: string } };
+    expect(body.error.message).toMatch(/Daily hard budget exceeded/);
+    expect(upstreamModels).toHaveLength(1);
+  });
+
+  it("applies a client's limit only to that client", async () => {
+    await start({ budgets: { clients: { ci: { daily: { hard: 0.000001 } } } } });
+    await chat([{ role: "user", content: "hi" }], { "x-clawd-client": "ci" });
+
+    const ci = await chat([{ role: "user", content: "hi" }], { "x-clawd-client": "ci" });
+    const other = await chat([{ role: "user", content: "hi" }], { "x-clawd-client": "ide" });
+    expect(ci.status).toBe(402);
+    expect(other.status).toBe(200);
+  });
+});
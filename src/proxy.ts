@@ -1,34 +1,186 @@
 /**
  * Clawd-router HTTP Proxy
  *
- * Provides HTTP server with routing pipeline, OpenRouter forwarding,
- * fallback chain, streaming, and API key validation.
+ * Provides HTTP server with routing pipeline, upstream forwarding
+ * (OpenRouter or a configured provider per model),
+ * fallback chain, streaming, and API key validation. Serves the OpenAI
+ * chat completions, Responses, legacy completions and embeddings APIs and
+ * the Anthropic Messages API.
  */
 
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
-import { Readable } from "node:stream";
-import type { ModelPricing } from "./router/selector.js";
-import { route, getFallbackChainFiltered, DEFAULT_ROUTING_CONFIG } from "./router/index.js";
-import type { Tier } from "./router/types.js";
+import { Readable, pipeline, type Transform } from "node:stream";
+import {
+  routeWithClassifier,
+  explainRoute,
+  filterChainByContext,
+  calculateModelCost,
+  createLLMClassifier,
+  validateTierModels,
+  RoutingConfigError,
+  DEFAULT_ROUTING_CONFIG,
+  estimateHistoryTokens,
+  estimateTokens,
+} from "./router/index.js";
+import type {
+  LLMClassifier,
+  ModelFilter,
+  ConversationHistory,
+  TokenEstimator,
+} from "./router/index.js";
+import type { RoutingDecision, RoutingConfig, RoutingProfile, Tier } from "./router/types.js";
 import {
   OPENCLAW_MODELS,
-  OPENROUTER_MODELS,
+  buildModelPricing,
   resolveModelAlias,
   getModelContextWindow,
+  isRoutingProfile,
+  isCatalogModel,
+  capabilityFilter,
+  ROUTING_PROFILES,
+  type CapabilityRequirements,
+  type ModelCapability,
 } from "./models.js";
 import { VERSION } from "./version.js";
 import { fetchWithRetry } from "./retry.js";
+import {
+  awaitFirstContent,
+  chunkOutputText,
+  createKeepAlive,
+  createSseTap,
+  parseSseJson,
+} from "./sse.js";
+import {
+  appendLedgerEntry,
+  costFromUsage,
+  parseUsage,
+  DEFAULT_LEDGER_DIR,
+  type LedgerEntry,
+  type TokenUsage,
+} from "./ledger.js";
+import {
+  BudgetTracker,
+  BudgetConfigError,
+  validateBudgets,
+  formatBudgetMessage,
+  type BudgetCheck,
+  type BudgetsConfig,
+  type SoftLimitAction,
+} from "./budget.js";
+import {
+  SessionStore,
+  SessionConfigError,
+  sessionKey,
+  validateSessionConfig,
+  type SessionConfig,
+  type SessionEntry,
+} from "./session.js";
+import {
+  catalogSyncsLive,
+  loadCatalog,
+  refreshCatalog,
+  startCatalogRefresh,
+  validateCatalogConfig,
+  CatalogConfigError,
+  type CatalogConfig,
+  type CatalogStatus,
+} from "./catalog.js";
+import {
+  createUpstreamResolver,
+  validateProviders,
+  ProvidersConfigError,
+  OPENROUTER_PROVIDER,
+  type ProvidersConfig,
+  type Upstream,
+  type UpstreamResolver,
+} from "./providers.js";
+import {
+  anthropicError,
+  createAnthropicStream,
+  fromAnthropicRequest,
+  toAnthropicMessage,
+} from "./anthropic.js";
+import { createResponsesStream, fromResponsesRequest, toResponsesObject } from "./responses.js";
+import {
+  buildEmbeddingCatalog,
+  embeddingCost,
+  selectEmbeddingModel,
+  validateEmbeddingsConfig,
+  EmbeddingsConfigError,
+  type EmbeddingCatalog,
+  type EmbeddingsConfig,
+} from "./embeddings.js";
 
-const OPENROUTER_BASE = "https://openrouter.ai/api/v1";
+/** Request header that overrides the routing profile for router model IDs. */
+const PROFILE_HEADER = "x-clawd-profile";
+
+/** Request header naming the API client, for per-client budgets and the ledger. */
+const CLIENT_HEADER = "x-clawd-client";
+
+/** Request header identifying a conversation for session affinity. */
+const SESSION_HEADER = "x-clawd-session";
 
 export type ProxyOptions = {
   port?: number;
   host?: string;
   openRouterApiKey?: string;
+  /** Routing config to use (defaults to DEFAULT_ROUTING_CONFIG) */
+  routingConfig?: RoutingConfig;
+  /**
+   * Classifier for ambiguous prompts. Defaults to one calling the
+   * classifier model's provider (OpenRouter unless configured otherwise)
+   * when routingConfig.classifier.enabled is set.
+   */
+  llmClassifier?: LLMClassifier;
+  /** Directory for the usage ledger (default: ~/.openclaw/clawd-router) */
+  ledgerDir?: string;
+  /** Don't record proxied requests in the usage ledger */
+  disableLedger?: boolean;
+  /** Daily/monthly spend limits, global and per client (see budget.ts) */
+  budgets?: BudgetsConfig;
+  /** Session affinity settings (see session.ts); enabled by default */
+  sessions?: SessionConfig;
+  /** Token counter for routing, context checks and cost estimates (default: estimateTokens) */
+  tokenEstimator?: TokenEstimator;
+  /** Model catalog sync from OpenRouter /models (see catalog.ts); enabled by default */
+  catalog?: CatalogConfig;
+  /** Called after each background catalog refresh, successful or not */
+  onCatalogUpdate?: (status: CatalogStatus) => void;
+  /** Upstreams besides OpenRouter, keyed by provider name (see providers.ts) */
+  providers?: ProvidersConfig;
+  /** Embedding models and default for /v1/embeddings (see embeddings.ts) */
+  embeddings?: EmbeddingsConfig;
+  /**
+   * Fall back to the next model when a stream sends nothing for this long
+   * before its first content (default: 30000)
+   */
+  firstTokenTimeoutMs?: number;
+  /** Send an SSE keepalive comment after this long without stream data (default: 15000) */
+  keepAliveMs?: number;
+};
+
+/** Per-server state shared by the request handlers. */
+type ProxyContext = {
+  /** Where each model's requests go */
+  upstreamFor: UpstreamResolver;
+  routingConfig: RoutingConfig;
+  llmClassifier?: LLMClassifier;
+  /** Undefined when the ledger is disabled */
+  ledgerDir?: string;
+  /** Undefined when no budgets are configured */
+  budgetTracker?: BudgetTracker;
+  /** Undefined when session affinity is disabled */
+  sessions?: SessionStore;
+  tokenEstimator: TokenEstimator;
+  embeddings: EmbeddingCatalog;
+  firstTokenTimeoutMs: number;
+  keepAliveMs: number;
 };
 
 export type ProxyHandle = {
   close: () => Promise<void>;
+  /** Where the active model catalog came from; updated by background refreshes */
+  readonly catalog: CatalogStatus;
 };
 
 let activePort: number = 0;
@@ -41,21 +193,200 @@ export function getProxyPort(): number {
   return activePort;
 }
 
+const DEFAULT_FIRST_TOKEN_TIMEOUT_MS = 30_000;
+const DEFAULT_KEEPALIVE_MS = 15_000;
+
+/** Ledger status for requests the client abandoned before a response (nginx's convention). */
+const CLIENT_CLOSED_STATUS = 499;
+
 /**
- * Build model pricing map from OpenRouter models.
+ * Upstream response headers that aren't passed on: hop-by-hop headers
+ * (RFC 9110 §7.6.1), plus length and encoding, which no longer describe the
+ * body once fetch() has decompressed it.
  */
-function buildModelPricing(): Map<string, ModelPricing> {
-  const map = new Map<string, ModelPricing>();
-  for (const m of OPENROUTER_MODELS) {
-    map.set(m.id, {
-      inputPrice: m.inputPrice,
-      outputPrice: m.outputPrice,
-    });
+const UNFORWARDED_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "content-length",
+  "content-encoding",
+]);
+
+/** Rebuilt by startProxy() once the catalog is synced. */
+let modelPricing = buildModelPricing();
+
+/**
+ * Build the x-clawd-* headers describing how a request was routed.
+ * Tier, confidence and savings are only present for routed requests.
+ */
+function routingHeaders(
+  model: string,
+  decision?: RoutingDecision,
+  savings?: number,
+): Record<string, string> {
+  const headers: Record<string, string> = { "x-clawd-model": model };
+  if (decision) {
+    headers["x-clawd-tier"] = decision.tier;
+    headers["x-clawd-confidence"] = decision.confidence.toFixed(2);
+    headers["x-clawd-savings"] = (savings ?? decision.savings).toFixed(2);
   }
-  return map;
+  return headers;
 }
 
-const modelPricing = buildModelPricing();
+/** An error raised by the proxy, before it is shaped for the client's API. */
+type ProxyError = { status: number; message: string; type: string; code?: string };
+
+/**
+ * The API a request arrived through. Requests are translated to chat
+ * completions before routing; the format shapes errors and successful
+ * upstream responses for the client.
+ */
+type ClientFormat = {
+  /** Translate the request to chat completions; throws Error on bodies it can't serve */
+  toChatRequest?: (body: Record<string, unknown>) => Record<string, unknown>;
+  /** Messages to route on for bodies without `messages`; throws Error when there are none */
+  routingMessages?: (body: Record<string, unknown>) => unknown[];
+  /** Upstream API path (default: "/chat/completions") */
+  upstreamPath?: string;
+  errorBody: (error: ProxyError) => unknown;
+  /** Convert a non-streaming response; undefined passes it through */
+  convertBody?: (completion: Record<string, unknown>, model: string) => unknown;
+  /** Convert an SSE response; undefined passes it through */
+  convertStream?: (model: string) => Transform;
+};
+
+/** OpenAI chat completions: upstream responses pass through unchanged. */
+const OPENAI_FORMAT: ClientFormat = {
+  errorBody: ({ message, type, code }) => ({ error: { message, type, ...(code ? { code } : {}) } }),
+};
+
+/** Anthropic Messages API (see anthropic.ts). */
+const ANTHROPIC_FORMAT: ClientFormat = {
+  toChatRequest: fromAnthropicRequest,
+  errorBody: ({ status, message }) => anthropicError(status, message),
+  convertBody: toAnthropicMessage,
+  convertStream: createAnthropicStream,
+};
+
+/** OpenAI Responses API (see responses.ts); errors share the OpenAI shape. */
+const RESPONSES_FORMAT: ClientFormat = {
+  toChatRequest: fromResponsesRequest,
+  errorBody: OPENAI_FORMAT.errorBody,
+  convertBody: toResponsesObject,
+  convertStream: createResponsesStream,
+};
+
+/** Legacy OpenAI completions, routed on the prompt and passed through. */
+const COMPLETIONS_FORMAT: ClientFormat = {
+  routingMessages: completionPromptMessages,
+  upstreamPath: "/completions",
+  errorBody: OPENAI_FORMAT.errorBody,
+};
+
+/** Routed endpoints by path. */
+const CLIENT_FORMATS: Record<string, ClientFormat> = {
+  "/v1/chat/completions": OPENAI_FORMAT,
+  "/v1/completions": COMPLETIONS_FORMAT,
+  "/v1/messages": ANTHROPIC_FORMAT,
+  "/v1/responses": RESPONSES_FORMAT,
+};
+
+const INVALID_JSON_ERROR: ProxyError = {
+  status: 400,
+  message: "Invalid JSON body",
+  type: "invalid_request",
+};
+
+const NON_OBJECT_BODY_ERROR: ProxyError = {
+  status: 400,
+  message: "Request body must be a JSON object",
+  type: "invalid_request",
+};
+
+/**
+ * A legacy completions prompt as a user message, so it can be routed like a
+ * chat. Batched prompts are joined; token-array prompts have no text to score.
+ */
+function completionPromptMessages(body: Record<string, unknown>): unknown[] {
+  const { prompt } = body;
+  if (typeof prompt === "string") return [{ role: "user", content: prompt }];
+  if (!Array.isArray(prompt) || prompt.length === 0) {
+    throw new Error("prompt is required and must be a string or a non-empty array");
+  }
+  const texts = prompt.filter((p): p is string => typeof p === "string");
+  return [{ role: "user", content: texts.join("\n") }];
+}
+
+function sendError(
+  res: ServerResponse,
+  format: ClientFormat,
+  error: ProxyError,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(error.status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(format.errorBody(error)));
+}
+
+/** Reject a request over a hard budget limit with a 402. */
+function sendBudgetExceeded(
+  res: ServerResponse,
+  format: ClientFormat,
+  budget: Exclude<BudgetCheck, { state: "ok" }>,
+): void {
+  sendError(
+    res,
+    format,
+    {
+      status: 402,
+      message: formatBudgetMessage(budget),
+      type: "insufficient_quota",
+      code: "budget_exceeded",
+    },
+    { "x-clawd-budget": "hard" },
+  );
+}
+
+/** Charge a request's cost to the budgets and append it to the usage ledger. */
+function recordRequest(ctx: ProxyContext, entry: LedgerEntry): void {
+  ctx.budgetTracker?.record(entry.cost, entry.client);
+  if (!ctx.ledgerDir) return;
+  appendLedgerEntry(entry, ctx.ledgerDir).catch(() => {
+    // Ledger failures must never affect the response
+  });
+}
+
+/**
+ * Upstream response headers safe to send to the client, minus
+ * UNFORWARDED_HEADERS and any header the upstream's Connection header names.
+ */
+function forwardableHeaders(headers: Headers): Record<string, string> {
+  const connectionScoped = new Set(
+    (headers.get("connection") ?? "").split(",").map((h) => h.trim().toLowerCase()),
+  );
+  const out: Record<string, string> = {};
+  for (const [name, value] of headers) {
+    if (!UNFORWARDED_HEADERS.has(name) && !connectionScoped.has(name)) out[name] = value;
+  }
+  return out;
+}
+
+/**
+ * Abort signal that fires when the client disconnects before its response
+ * is finished, so the upstream request is cancelled instead of running on.
+ */
+function clientAbortSignal(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.once("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
 
 /**
  * Read JSON body from request.
@@ -70,44 +401,167 @@ async function readJsonBody(req: IncomingMessage): Promise<unknown> {
   return JSON.parse(body) as unknown;
 }
 
+/** Whether a parsed JSON body is an object (not null, an array or a primitive). */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Content part types that carry an image. */
+const IMAGE_PART_TYPES = new Set(["image_url", "input_image", "image"]);
+
 /**
- * Extract prompt and system prompt from messages.
+ * Read message content as text. Array content (multipart) has its text
+ * parts joined with newlines; image parts are reported via `hasImages`.
  */
-function extractPrompts(messages: unknown[]): { prompt: string; systemPrompt?: string } {
-  let prompt = "";
+function readContent(content: unknown): { text: string; hasImages: boolean } {
+  if (typeof content === "string") return { text: content, hasImages: false };
+  if (!Array.isArray(content)) return { text: "", hasImages: false };
+
+  const texts: string[] = [];
+  let hasImages = false;
+  for (const part of content) {
+    const p = part as { type?: string; text?: unknown } | null;
+    if (typeof p?.text === "string" && (p.type === "text" || p.type === "input_text")) {
+      texts.push(p.text);
+    } else if (p?.type && IMAGE_PART_TYPES.has(p.type)) {
+      hasImages = true;
+    }
+  }
+  return { text: texts.join("\n"), hasImages };
+}
+
+type ChatMessage = {
+  role?: string;
+  content?: unknown;
+  tool_calls?: unknown;
+  function_call?: unknown;
+};
+
+/** Text of an assistant message's tool calls (names and arguments). */
+function readToolCalls(m: ChatMessage): string[] {
+  const calls = Array.isArray(m.tool_calls)
+    ? m.tool_calls.map((call) => (call as { function?: unknown })?.function)
+    : m.function_call
+      ? [m.function_call]
+      : [];
+  return calls.map((call) => {
+    const fn = call as { name?: unknown; arguments?: unknown } | undefined;
+    return `${String(fn?.name ?? "")} ${String(fn?.arguments ?? "")}`.trim();
+  });
+}
+
+/**
+ * Split messages into the system prompt, the latest user turn (what gets
+ * classified) and the earlier conversation, and report whether any message
+ * includes an image.
+ */
+function extractPrompts(messages: unknown[]): {
+  prompt: string;
+  systemPrompt?: string;
+  history: ConversationHistory;
+  hasImages: boolean;
+} {
   let systemPrompt: string | undefined;
+  let hasImages = false;
+  const userTurns: string[] = [];
+  const history: ConversationHistory = {
+    userTurns: [],
+    assistantTurns: [],
+    toolResults: [],
+    toolRounds: 0,
+  };
 
   for (const msg of messages) {
-    const m = msg as { role?: string; content?: string };
+    const m = msg as ChatMessage;
     const role = (m?.role ?? "").toLowerCase();
-    const content = typeof m?.content === "string" ? m.content : "";
+    const { text: content, hasImages: messageHasImages } = readContent(m?.content);
+    hasImages ||= messageHasImages;
 
-    if (role === "system") {
+    if (role === "system" || role === "developer") {
       systemPrompt = (systemPrompt ? `${systemPrompt}\n${content}` : content).trim() || undefined;
-    } else {
-      prompt = (prompt ? `${prompt}\n${content}` : content).trim() || prompt;
+    } else if (role === "assistant") {
+      const toolCalls = readToolCalls(m);
+      if (toolCalls.length > 0) history.toolRounds++;
+      const text = [content, ...toolCalls].join("\n").trim();
+      if (text) history.assistantTurns.push(text);
+    } else if (role === "tool" || role === "function") {
+      if (content.trim()) history.toolResults.push(content);
+    } else if (content.trim()) {
+      userTurns.push(content.trim());
     }
   }
 
-  return { prompt, systemPrompt };
+  // Classify the latest user turn; earlier ones become history
+  const prompt = userTurns.pop() ?? "";
+  history.userTurns = userTurns;
+
+  return { prompt, systemPrompt, history, hasImages };
+}
+
+/** The output limit a body asks for (`max_tokens`, else `max_completion_tokens`), if valid. */
+function requestedMaxTokens(body: Record<string, unknown>): number | undefined {
+  const max = Number(body.max_tokens ?? body.max_completion_tokens);
+  return Number.isFinite(max) && max > 0 ? max : undefined;
 }
 
 /**
- * Forward a chat completions request to OpenRouter with a specific model.
+ * Derive the model capabilities a chat completions body needs: tool calling
+ * for `tools`/`functions` (unless tool_choice is "none"), JSON output for a
+ * json_object/json_schema `response_format`, reasoning for an enabled
+ * `reasoning` object or `reasoning_effort`, vision for image parts, and room
+ * for an explicit `max_tokens`/`max_completion_tokens`.
  */
-async function forwardToOpenRouter(
+function requestRequirements(
   body: Record<string, unknown>,
-  model: string,
-  apiKey: string,
+  hasImages: boolean,
+): CapabilityRequirements {
+  const capabilities: ModelCapability[] = [];
+
+  const hasTools =
+    (Array.isArray(body.tools) && body.tools.length > 0) ||
+    (Array.isArray(body.functions) && body.functions.length > 0);
+  if (hasTools && body.tool_choice !== "none") capabilities.push("tools");
+
+  const format = (body.response_format as { type?: string } | undefined)?.type;
+  if (format === "json_object" || format === "json_schema") capabilities.push("jsonSchema");
+
+  const reasoning = body.reasoning as { enabled?: boolean; effort?: string } | null | undefined;
+  const reasoningOn =
+    typeof reasoning === "object" &&
+    reasoning !== null &&
+    reasoning.enabled !== false &&
+    reasoning.effort !== "none";
+  const effortOn = typeof body.reasoning_effort === "string" && body.reasoning_effort !== "none";
+  if (reasoningOn || effortOn) capabilities.push("reasoning");
+
+  if (hasImages) capabilities.push("vision");
+
+  return { capabilities, minOutputTokens: requestedMaxTokens(body) };
+}
+
+/**
+ * Forward a request to a model's upstream provider.
+ *
+ * @param path - API path under the provider's base URL
+ * @param signal - Cancels the request (and any retries)
+ */
+async function forwardToUpstream(
+  body: Record<string, unknown>,
+  upstream: Upstream,
   stream: boolean,
+  path = "/chat/completions",
+  signal?: AbortSignal,
 ): Promise<Response> {
-  const url = `${OPENROUTER_BASE}/chat/completions`;
-  const payload = { ...body, model };
+  const url = `${upstream.baseUrl}${path}`;
+  const payload = { ...body, model: upstream.model };
   const headers: Record<string, string> = {
+    ...upstream.headers,
     "Content-Type": "application/json",
-    Authorization: `Bearer ${apiKey}`,
-    "HTTP-Referer": `clawd-router/${VERSION}`,
   };
+  if (upstream.apiKey) headers.Authorization = `Bearer ${upstream.apiKey}`;
+  if (upstream.provider === OPENROUTER_PROVIDER) {
+    headers["HTTP-Referer"] = `clawd-router/${VERSION}`;
+  }
 
   const res = await fetchWithRetry(
     fetch,
@@ -117,6 +571,7 @@ async function forwardToOpenRouter(
       headers,
       body: JSON.stringify(payload),
       duplex: "half",
+      signal,
     } as RequestInit,
   );
 
@@ -124,84 +579,256 @@ async function forwardToOpenRouter(
 }
 
 /**
- * Choose target model: use routing for "auto"/"router", otherwise resolve alias.
+ * Read the routing profile header.
+ * Returns undefined when absent, or an error message when the value is unknown.
+ */
+function readProfileHeader(req: IncomingMessage): { profile?: RoutingProfile; error?: string } {
+  const raw = req.headers[PROFILE_HEADER];
+  const value = (Array.isArray(raw) ? raw[0] : raw)?.trim().toLowerCase();
+  if (!value) return {};
+  if (!isRoutingProfile(value)) {
+    return {
+      error: `Invalid ${PROFILE_HEADER} header "${value}" (expected one of ${ROUTING_PROFILES.join(", ")})`,
+    };
+  }
+  return { profile: value };
+}
+
+/**
+ * Read the conversation ID header. Returns undefined when absent or blank.
  */
-function selectTargetModel(
+function readSessionHeader(req: IncomingMessage): string | undefined {
+  const raw = req.headers[SESSION_HEADER];
+  return (Array.isArray(raw) ? raw[0] : raw)?.trim() || undefined;
+}
+
+/**
+ * Read the API client header. Returns undefined when absent or blank.
+ */
+function readClientHeader(req: IncomingMessage): string | undefined {
+  const raw = req.headers[CLIENT_HEADER];
+  return (Array.isArray(raw) ? raw[0] : raw)?.trim() || undefined;
+}
+
+/** Per-request routing inputs beyond the prompt itself. */
+type TargetOptions = {
+  /** From the profile header; overrides the profile implied by the model ID */
+  routingProfile?: RoutingProfile;
+  /** Set while a soft budget limit is exceeded */
+  softLimitAction?: SoftLimitAction;
+  modelFilter?: ModelFilter;
+  history?: ConversationHistory;
+};
+
+/**
+ * Choose target model: use routing for profile IDs ("auto", "eco", "premium",
+ * "free"), otherwise resolve alias. A profile header overrides the profile
+ * implied by the model ID but never turns routing on for explicit models.
+ * While a soft budget limit is exceeded, routed requests move to the eco
+ * profile (free stays free) or are capped at the configured tier.
+ */
+async function selectTargetModel(
   requestedModel: string,
   prompt: string,
   systemPrompt: string | undefined,
   maxOutputTokens: number,
-  routingProfile?: "free" | "eco" | "auto" | "premium",
-): { model: string; tier?: Tier } {
+  ctx: ProxyContext,
+  options: TargetOptions = {},
+): Promise<RoutedTarget> {
+  const { routingProfile, softLimitAction, modelFilter, history } = options;
   const resolved = resolveModelAlias(requestedModel).toLowerCase();
 
-  if (resolved === "auto" || resolved === "router") {
-    const decision = route(prompt, systemPrompt, maxOutputTokens, {
-      config: DEFAULT_ROUTING_CONFIG,
+  if (isRoutingProfile(resolved)) {
+    let profile = routingProfile ?? resolved;
+    const forceEco = softLimitAction === "eco" && profile !== "free" && profile !== "eco";
+    if (forceEco) profile = "eco";
+    const maxTier: Tier | undefined =
+      softLimitAction && softLimitAction !== "eco" ? softLimitAction : undefined;
+    const decision = await routeWithClassifier(prompt, systemPrompt, maxOutputTokens, {
+      config: ctx.routingConfig,
       modelPricing,
-      routingProfile: routingProfile ?? "auto",
+      routingProfile: profile,
+      llmClassifier: ctx.llmClassifier,
+      maxTier,
+      modelFilter,
+      history,
+      tokenEstimator: ctx.tokenEstimator,
     });
-    return { model: decision.model, tier: decision.tier };
+    if (forceEco) decision.reasoning += " (soft budget limit)";
+    return { model: decision.model, decision, profile };
   }
 
   return { model: resolveModelAlias(requestedModel) };
 }
 
+/** Tier order for session upgrades. */
+const TIER_RANK: Record<Tier, number> = { SIMPLE: 0, MEDIUM: 1, COMPLEX: 2, REASONING: 3 };
+
+type RoutedTarget = { model: string; decision?: RoutingDecision; profile?: RoutingProfile };
+
+/**
+ * Keep a routed conversation on the model an earlier turn was served by,
+ * unless this turn's tier is strictly higher, the profile changed, or the
+ * model can't serve this turn (capabilities, soft-budget tier cap).
+ * Returns the target unchanged when the session doesn't apply.
+ */
+function applySessionAffinity(
+  target: RoutedTarget,
+  session: SessionEntry | undefined,
+  options: {
+    modelFilter?: ModelFilter;
+    maxTier?: Tier;
+    inputTokensFor: (model: string) => number;
+    maxOutputTokens: number;
+  },
+): RoutedTarget {
+  const { decision, profile } = target;
+  if (!decision || !session || session.profile !== profile) return target;
+  if (session.model === decision.model && session.tier === decision.tier) return target;
+  if (TIER_RANK[decision.tier] > TIER_RANK[session.tier]) return target;
+  if (options.maxTier && TIER_RANK[session.tier] > TIER_RANK[options.maxTier]) return target;
+  const accepts = options.modelFilter?.accepts ?? (() => true);
+  if (!accepts(session.model)) return target;
+
+  const { costEstimate, baselineCost, savings } = calculateModelCost(
+    session.model,
+    modelPricing,
+    options.inputTokensFor(session.model),
+    options.maxOutputTokens,
+    profile,
+  );
+  return {
+    model: session.model,
+    profile,
+    decision: {
+      ...decision,
+      model: session.model,
+      tier: session.tier,
+      reasoning: `${decision.reasoning} | sticky session: ${session.model} (${session.tier})`,
+      costEstimate,
+      baselineCost,
+      savings,
+      fallbackChain: [
+        session.model,
+        ...session.fallbackChain.filter((m) => m !== session.model && accepts(m)),
+      ],
+    },
+  };
+}
+
 /**
  * Handle POST /v1/chat/completions with routing, fallback, and streaming.
+ * Other client APIs (see CLIENT_FORMATS) are translated to chat completions
+ * first and answered in their own format.
  */
 async function handleChatCompletions(
   req: IncomingMessage,
   res: ServerResponse,
-  apiKey: string,
+  ctx: ProxyContext,
+  format: ClientFormat = OPENAI_FORMAT,
 ): Promise<void> {
-  let body: Record<string, unknown>;
+  const startedAt = Date.now();
+  let parsed: unknown;
   try {
-    body = (await readJsonBody(req)) as Record<string, unknown>;
+    parsed = await readJsonBody(req);
   } catch {
-    res.writeHead(400, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ error: { message: "Invalid JSON body", type: "invalid_request" } }));
+    sendError(res, format, INVALID_JSON_ERROR);
+    return;
+  }
+  if (!isJsonObject(parsed)) {
+    sendError(res, format, NON_OBJECT_BODY_ERROR);
+    return;
+  }
+  let body = parsed;
+  let messages: unknown;
+  try {
+    if (format.toChatRequest) body = format.toChatRequest(body);
+    messages = format.routingMessages ? format.routingMessages(body) : body.messages;
+  } catch (err) {
+    const message = (err as Error).message;
+    sendError(res, format, { status: 400, message, type: "invalid_request" });
     return;
   }
-
-  const messages = (body.messages ?? []) as unknown[];
   if (!Array.isArray(messages) || messages.length === 0) {
-    res.writeHead(400, { "Content-Type": "application/json" });
-    res.end(
-      JSON.stringify({
-        error: { message: "messages is required and must be a non-empty array", type: "invalid_request" },
-      }),
-    );
+    sendError(res, format, {
+      status: 400,
+      message: "messages is required and must be a non-empty array",
+      type: "invalid_request",
+    });
     return;
   }
 
   const requestedModel = String(body.model ?? "auto").trim() || "auto";
-  const maxOutputTokens = Number(body.max_tokens ?? 4096) || 4096;
+  const maxOutputTokens = requestedMaxTokens(body) ?? 4096;
   const stream = Boolean(body.stream);
+  if (stream) {
+    // Upstreams only send usage on streams when asked; the ledger and budgets need it
+    const streamOptions = isJsonObject(body.stream_options) ? body.stream_options : {};
+    body = { ...body, stream_options: { ...streamOptions, include_usage: true } };
+  }
+
+  const { profile: headerProfile, error: profileError } = readProfileHeader(req);
+  if (profileError) {
+    sendError(res, format, { status: 400, message: profileError, type: "invalid_request" });
+    return;
+  }
 
-  const { prompt, systemPrompt } = extractPrompts(messages);
+  const client = readClientHeader(req);
+  const budget = ctx.budgetTracker?.check(client) ?? { state: "ok" as const };
+  if (budget.state === "hard") {
+    sendBudgetExceeded(res, format, budget);
+    return;
+  }
 
-  const { model: primaryModel, tier } = selectTargetModel(
+  const { prompt, systemPrompt, history, hasImages } = extractPrompts(messages);
+  const softLimitAction = budget.state === "soft" ? budget.action : undefined;
+  const modelFilter = capabilityFilter(requestRequirements(body, hasImages));
+
+  const routed = await selectTargetModel(
     requestedModel,
     prompt,
     systemPrompt,
     maxOutputTokens,
+    ctx,
+    { routingProfile: headerProfile, softLimitAction, modelFilter, history },
   );
 
+  // Input tokens per model, since tokenizers differ by model family
   const fullText = `${systemPrompt ?? ""} ${prompt}`;
-  const estimatedInputTokens = Math.ceil(fullText.length / 4);
-  const estimatedTotalTokens = estimatedInputTokens + maxOutputTokens;
-
-  const tierConfigs = DEFAULT_ROUTING_CONFIG.tiers;
-  const fallbackChain =
-    tier != null
-      ? getFallbackChainFiltered(
-          tier,
-          tierConfigs,
-          estimatedTotalTokens,
-          getModelContextWindow,
-        )
-      : [primaryModel];
+  const inputTokens = new Map<string, number>();
+  const inputTokensFor = (model: string): number => {
+    let tokens = inputTokens.get(model);
+    if (tokens === undefined) {
+      tokens =
+        ctx.tokenEstimator(fullText, model) +
+        estimateHistoryTokens(history, ctx.tokenEstimator, model);
+      inputTokens.set(model, tokens);
+    }
+    return tokens;
+  };
+
+  // Keep routed conversations on the model earlier turns used
+  const sessionId =
+    routed.decision && ctx.sessions
+      ? sessionKey(readSessionHeader(req), requestedModel, messages, client)
+      : undefined;
+  const { model: primaryModel, decision, profile } = sessionId
+    ? applySessionAffinity(routed, ctx.sessions!.get(sessionId), {
+        modelFilter,
+        maxTier: softLimitAction !== "eco" ? softLimitAction : undefined,
+        inputTokensFor,
+        maxOutputTokens,
+      })
+    : routed;
+
+  // Retry within the tier table the decision came from (agentic/eco/premium/free)
+  const fallbackChain = decision
+    ? filterChainByContext(
+        decision.fallbackChain,
+        (model) => inputTokensFor(model) + maxOutputTokens,
+        getModelContextWindow,
+      )
+    : [primaryModel];
 
   const modelsToTry = fallbackChain.includes(primaryModel)
     ? fallbackChain
@@ -209,10 +836,66 @@ async function handleChatCompletions(
 
   let lastError: Error | null = null;
   let lastStatus = 500;
+  let lastModel = primaryModel;
 
+  // Savings reflect the model actually served, which may be a fallback
+  const headersFor = (model: string) => {
+    const headers = routingHeaders(
+      model,
+      decision,
+      decision && model !== decision.model
+        ? calculateModelCost(model, modelPricing, inputTokensFor(model), maxOutputTokens, profile)
+            .savings
+        : undefined,
+    );
+    if (budget.state === "soft") headers["x-clawd-budget"] = "soft";
+    return headers;
+  };
+
+  const attempted: string[] = [];
+  const recordUsage = (model: string, status: number, usage?: TokenUsage, aborted = false) => {
+    const { cost, baselineCost } = costFromUsage(model, usage, modelPricing, profile);
+    recordRequest(ctx, {
+      timestamp: new Date(startedAt).toISOString(),
+      requestedModel,
+      model,
+      tier: decision?.tier,
+      profile,
+      client,
+      fallbacks: attempted.slice(0, -1),
+      status,
+      latencyMs: Date.now() - startedAt,
+      stream,
+      ...(aborted ? { aborted } : {}),
+      usage,
+      cost,
+      baselineCost,
+    });
+  };
+
+  const signal = clientAbortSignal(res);
   for (const model of modelsToTry) {
+    if (signal.aborted) break;
+    lastModel = model;
+    attempted.push(model);
+    const clawdHeaders = headersFor(model);
+    const upstream = ctx.upstreamFor(model);
+    clawdHeaders["x-clawd-provider"] = upstream.provider;
+    if (upstream.provider === OPENROUTER_PROVIDER && !upstream.apiKey) {
+      // Other providers may still serve the rest of the chain
+      lastStatus = 401;
+      lastError = new Error(`OpenRouter API key required for ${model}`);
+      continue;
+    }
+
     try {
-      const response = await forwardToOpenRouter(body, model, apiKey, stream);
+      const response = await forwardToUpstream(
+        body,
+        upstream,
+        stream,
+        format.upstreamPath,
+        signal,
+      );
 
       if (!response.ok) {
         lastStatus = response.status;
@@ -224,24 +907,100 @@ async function handleChatCompletions(
           errBody = { error: { message: text } };
         }
         lastError = new Error(
-          `OpenRouter error (${response.status}): ${(errBody as { error?: { message?: string } })?.error?.message ?? text}`,
+          `${upstream.provider} error (${response.status}): ${(errBody as { error?: { message?: string } })?.error?.message ?? text}`,
         );
         const retryable = [429, 502, 503, 504].includes(response.status);
         if (!retryable) {
-          res.writeHead(response.status, { "Content-Type": "application/json" });
-          res.end(text || JSON.stringify(errBody));
+          if (format.convertBody) {
+            // Translated clients can't read the upstream's OpenAI-style error
+            sendError(
+              res,
+              format,
+              { status: response.status, message: lastError.message, type: "upstream_error" },
+              clawdHeaders,
+            );
+          } else {
+            res.writeHead(response.status, { "Content-Type": "application/json", ...clawdHeaders });
+            res.end(text || JSON.stringify(errBody));
+          }
+          recordUsage(model, response.status);
           return;
         }
         continue;
       }
 
-      res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
-      if (stream && response.body) {
-        const nodeStream = Readable.fromWeb(response.body as import("node:stream/web").ReadableStream);
-        nodeStream.pipe(res);
+      // Hold streams back until their first content, so an upstream that
+      // errors, stalls or hangs up before then can still fall back
+      let responseBody: ReadableStream<Uint8Array> | null = response.body;
+      const isSse = response.headers.get("content-type")?.includes("text/event-stream");
+      if (stream && responseBody && isSse) {
+        const start = await awaitFirstContent(responseBody, ctx.firstTokenTimeoutMs);
+        if (!start.ok) {
+          lastStatus = 502;
+          lastError = new Error(`${upstream.provider} stream failed (${model}): ${start.reason}`);
+          continue;
+        }
+        responseBody = start.stream;
+      }
+
+      if (sessionId && decision) {
+        ctx.sessions!.set(sessionId, {
+          model,
+          tier: decision.tier,
+          profile,
+          fallbackChain: decision.fallbackChain,
+        });
+      }
+
+      const upstreamHeaders = forwardableHeaders(response.headers);
+      if (stream && responseBody) {
+        res.writeHead(response.status, { ...upstreamHeaders, ...clawdHeaders });
+        // Usage arrives in the final chunk; record once the response is done
+        let usage: TokenUsage | undefined;
+        let streamedText = "";
+        const tap = createSseTap((event) => {
+          const chunk = parseSseJson(event);
+          usage = parseUsage(chunk) ?? usage;
+          streamedText += chunkOutputText(chunk);
+        });
+        res.once("close", () => {
+          const aborted = !res.writableFinished;
+          if (aborted && !usage) {
+            // The usage chunk never came; estimate what was sent before the client left
+            const promptTokens = inputTokensFor(model);
+            const completionTokens = ctx.tokenEstimator(streamedText, model);
+            const totalTokens = promptTokens + completionTokens;
+            usage = { promptTokens, completionTokens, totalTokens };
+          }
+          recordUsage(model, response.status, usage, aborted);
+        });
+        const nodeStream = Readable.fromWeb(
+          responseBody as import("node:stream/web").ReadableStream,
+        );
+        const stages = format.convertStream ? [tap, format.convertStream(model)] : [tap];
+        pipeline([nodeStream, ...stages, createKeepAlive(ctx.keepAliveMs), res], () => {
+          // A client or upstream hang-up ends the response; usage is recorded on close
+        });
       } else {
         const text = await response.text();
-        res.end(text);
+        let completion: Record<string, unknown> | undefined;
+        try {
+          completion = JSON.parse(text) as Record<string, unknown>;
+        } catch {
+          // Non-JSON body — nothing to account or convert
+        }
+        if (format.convertBody && completion) {
+          res.writeHead(response.status, {
+            ...upstreamHeaders,
+            "content-type": "application/json",
+            ...clawdHeaders,
+          });
+          res.end(JSON.stringify(format.convertBody(completion, model)));
+        } else {
+          res.writeHead(response.status, { ...upstreamHeaders, ...clawdHeaders });
+          res.end(text);
+        }
+        recordUsage(model, response.status, parseUsage(completion));
       }
       return;
     } catch (err) {
@@ -249,13 +1008,189 @@ async function handleChatCompletions(
     }
   }
 
-  res.writeHead(lastStatus, { "Content-Type": "application/json" });
+  if (signal.aborted) {
+    // Nobody is left to answer
+    recordUsage(lastModel, CLIENT_CLOSED_STATUS, undefined, true);
+    return;
+  }
+
+  sendError(
+    res,
+    format,
+    {
+      status: lastStatus,
+      message: lastError?.message ?? "All fallback models failed",
+      type: lastStatus === 401 ? "authentication_error" : "internal_error",
+    },
+    headersFor(lastModel),
+  );
+  recordUsage(lastModel, lastStatus);
+}
+
+/**
+ * Handle POST /v1/embeddings: pick the embedding model (see embeddings.ts)
+ * and forward the request unchanged. There is no fallback to other models.
+ */
+async function handleEmbeddings(
+  req: IncomingMessage,
+  res: ServerResponse,
+  ctx: ProxyContext,
+): Promise<void> {
+  const startedAt = Date.now();
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch {
+    sendError(res, OPENAI_FORMAT, INVALID_JSON_ERROR);
+    return;
+  }
+  if (!isJsonObject(body)) {
+    sendError(res, OPENAI_FORMAT, NON_OBJECT_BODY_ERROR);
+    return;
+  }
+  if (body.input === undefined || body.input === null) {
+    sendError(res, OPENAI_FORMAT, {
+      status: 400,
+      message: "input is required",
+      type: "invalid_request",
+    });
+    return;
+  }
+
+  const client = readClientHeader(req);
+  const budget = ctx.budgetTracker?.check(client) ?? { state: "ok" as const };
+  if (budget.state === "hard") {
+    sendBudgetExceeded(res, OPENAI_FORMAT, budget);
+    return;
+  }
+
+  const requestedModel = String(body.model ?? "auto").trim() || "auto";
+  const model = selectEmbeddingModel(requestedModel, ctx.embeddings);
+  const upstream = ctx.upstreamFor(model);
+  const headers: Record<string, string> = {
+    "x-clawd-model": model,
+    "x-clawd-provider": upstream.provider,
+  };
+  if (budget.state === "soft") headers["x-clawd-budget"] = "soft";
+
+  let status: number;
+  let usage: TokenUsage | undefined;
+  const signal = clientAbortSignal(res);
+  if (upstream.provider === OPENROUTER_PROVIDER && !upstream.apiKey) {
+    status = 401;
+    sendError(
+      res,
+      OPENAI_FORMAT,
+      { status, message: `OpenRouter API key required for ${model}`, type: "authentication_error" },
+      headers,
+    );
+  } else {
+    try {
+      const response = await forwardToUpstream(body, upstream, false, "/embeddings", signal);
+      const text = await response.text();
+      status = response.status;
+      if (response.ok) {
+        try {
+          usage = parseUsage(JSON.parse(text));
+        } catch {
+          // Non-JSON body — nothing to account
+        }
+      }
+      res.writeHead(status, {
+        "Content-Type": response.headers.get("content-type") ?? "application/json",
+        ...headers,
+      });
+      res.end(text);
+    } catch (err) {
+      if (signal.aborted) {
+        status = CLIENT_CLOSED_STATUS;
+      } else {
+        status = 500;
+        const message = err instanceof Error ? err.message : String(err);
+        sendError(res, OPENAI_FORMAT, { status, message, type: "internal_error" }, headers);
+      }
+    }
+  }
+
+  // Savings versus a chat baseline mean nothing for embeddings
+  const cost = embeddingCost(model, usage?.promptTokens ?? 0, ctx.embeddings);
+  recordRequest(ctx, {
+    timestamp: new Date(startedAt).toISOString(),
+    requestedModel,
+    model,
+    client,
+    fallbacks: [],
+    status,
+    latencyMs: Date.now() - startedAt,
+    stream: false,
+    ...(signal.aborted ? { aborted: true } : {}),
+    usage,
+    cost,
+    baselineCost: cost,
+  });
+}
+
+/**
+ * Handle POST /v1/route/explain - run route() on a chat completions body and
+ * return the decision plus the rule-based scoring, without calling OpenRouter.
+ * Explicit (non-router) model IDs are explained as if sent to the auto profile.
+ */
+async function handleRouteExplain(
+  req: IncomingMessage,
+  res: ServerResponse,
+  ctx: ProxyContext,
+): Promise<void> {
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch {
+    sendError(res, OPENAI_FORMAT, INVALID_JSON_ERROR);
+    return;
+  }
+  if (!isJsonObject(body)) {
+    sendError(res, OPENAI_FORMAT, NON_OBJECT_BODY_ERROR);
+    return;
+  }
+
+  const messages = body.messages ?? [];
+  if (!Array.isArray(messages) || messages.length === 0) {
+    sendError(res, OPENAI_FORMAT, {
+      status: 400,
+      message: "messages is required and must be a non-empty array",
+      type: "invalid_request",
+    });
+    return;
+  }
+
+  const { profile: headerProfile, error: profileError } = readProfileHeader(req);
+  if (profileError) {
+    sendError(res, OPENAI_FORMAT, { status: 400, message: profileError, type: "invalid_request" });
+    return;
+  }
+
+  const requestedModel = String(body.model ?? "auto").trim() || "auto";
+  const maxOutputTokens = requestedMaxTokens(body) ?? 4096;
+  const resolved = resolveModelAlias(requestedModel).toLowerCase();
+  const profile = headerProfile ?? (isRoutingProfile(resolved) ? resolved : "auto");
+
+  const { prompt, systemPrompt, history, hasImages } = extractPrompts(messages);
+  const { decision, scoring } = explainRoute(prompt, systemPrompt, maxOutputTokens, {
+    config: ctx.routingConfig,
+    modelPricing,
+    routingProfile: profile,
+    modelFilter: capabilityFilter(requestRequirements(body, hasImages)),
+    history,
+    tokenEstimator: ctx.tokenEstimator,
+  });
+
+  res.writeHead(200, { "Content-Type": "application/json" });
   res.end(
     JSON.stringify({
-      error: {
-        message: lastError?.message ?? "All fallback models failed",
-        type: "internal_error",
-      },
+      requestedModel,
+      routed: isRoutingProfile(resolved),
+      profile,
+      decision,
+      scoring,
     }),
   );
 }
@@ -288,50 +1223,153 @@ function handleHealth(res: ServerResponse): void {
 /**
  * Start the HTTP proxy server.
  *
- * @param options - Proxy configuration (port, host, openRouterApiKey)
+ * The model catalog starts from the snapshot, disk cache or static list and
+ * is refreshed from OpenRouter in the background (see startCatalogRefresh).
+ * Every model named in the routing config's tier tables is checked against
+ * it (waiting for a live listing only when the local one lacks a tier
+ * model); the promise rejects with a RoutingConfigError when one is missing
+ * (or a BudgetConfigError, SessionConfigError, CatalogConfigError or
+ * EmbeddingsConfigError for invalid settings). Budget spend is seeded with month-to-date costs
+ * from the ledger.
+ *
+ * @param options - Proxy configuration (port, host, openRouterApiKey, routingConfig, budgets)
  * @returns Promise resolving to a ProxyHandle with close() method
  */
-export function startProxy(options: ProxyOptions = {}): Promise<ProxyHandle> {
-  return new Promise((resolve, reject) => {
-    const port = options.port ?? 0;
-    const host = options.host ?? "127.0.0.1";
-    const apiKey =
-      options.openRouterApiKey ?? process.env.OPENROUTER_API_KEY ?? "";
+export async function startProxy(options: ProxyOptions = {}): Promise<ProxyHandle> {
+  const port = options.port ?? 0;
+  const host = options.host ?? "127.0.0.1";
+  const apiKey =
+    options.openRouterApiKey ?? process.env.OPENROUTER_API_KEY ?? "";
+  const routingConfig = options.routingConfig ?? DEFAULT_ROUTING_CONFIG;
+
+  if (options.providers) {
+    const providerIssues = validateProviders(options.providers);
+    if (providerIssues.length > 0) {
+      throw new ProvidersConfigError(providerIssues);
+    }
+  }
+  const upstreamFor = createUpstreamResolver(options.providers, apiKey);
+  const hasOtherProviders = Object.keys(options.providers ?? {}).some(
+    (name) => name !== OPENROUTER_PROVIDER,
+  );
+
+  if (options.catalog) {
+    const catalogIssues = validateCatalogConfig(options.catalog);
+    if (catalogIssues.length > 0) {
+      throw new CatalogConfigError(catalogIssues);
+    }
+  }
+  let catalog = await loadCatalog(options.catalog);
+  let configIssues = validateTierModels(routingConfig, isCatalogModel);
+  if (configIssues.length > 0 && catalogSyncsLive(options.catalog) && catalog.source !== "live") {
+    // Tier tables may name models only a fresh listing has
+    catalog = await refreshCatalog(catalog);
+    configIssues = validateTierModels(routingConfig, isCatalogModel);
+  }
+  if (configIssues.length > 0) {
+    throw new RoutingConfigError(configIssues);
+  }
+  modelPricing = buildModelPricing();
+  if (options.budgets) {
+    const budgetIssues = validateBudgets(options.budgets);
+    if (budgetIssues.length > 0) {
+      throw new BudgetConfigError(budgetIssues);
+    }
+  }
+  if (options.sessions) {
+    const sessionIssues = validateSessionConfig(options.sessions);
+    if (sessionIssues.length > 0) {
+      throw new SessionConfigError(sessionIssues);
+    }
+  }
+  if (options.embeddings) {
+    const embeddingIssues = validateEmbeddingsConfig(options.embeddings);
+    if (embeddingIssues.length > 0) {
+      throw new EmbeddingsConfigError(embeddingIssues);
+    }
+  }
 
+  const ledgerDir = options.disableLedger ? undefined : (options.ledgerDir ?? DEFAULT_LEDGER_DIR);
+  const budgetTracker = !options.budgets
+    ? undefined
+    : ledgerDir
+      ? await BudgetTracker.fromLedger(options.budgets, ledgerDir)
+      : new BudgetTracker(options.budgets);
+  const classifierUpstream = upstreamFor(routingConfig.classifier.llmModel);
+  const llmClassifier =
+    options.llmClassifier ??
+    (routingConfig.classifier.enabled &&
+    (classifierUpstream.apiKey?.trim() || classifierUpstream.provider !== OPENROUTER_PROVIDER)
+      ? createLLMClassifier(
+          { ...routingConfig.classifier, llmModel: classifierUpstream.model },
+          { apiBase: classifierUpstream.baseUrl, apiKey: classifierUpstream.apiKey },
+        )
+      : undefined);
+  const sessions =
+    options.sessions?.enabled === false ? undefined : new SessionStore(options.sessions);
+  const ctx: ProxyContext = {
+    upstreamFor,
+    routingConfig,
+    llmClassifier,
+    ledgerDir,
+    budgetTracker,
+    sessions,
+    tokenEstimator: options.tokenEstimator ?? estimateTokens,
+    embeddings: buildEmbeddingCatalog(options.embeddings),
+    firstTokenTimeoutMs: options.firstTokenTimeoutMs ?? DEFAULT_FIRST_TOKEN_TIMEOUT_MS,
+    keepAliveMs: options.keepAliveMs ?? DEFAULT_KEEPALIVE_MS,
+  };
+
+  return new Promise((resolve, reject) => {
     const server = createServer(async (req, res) => {
-      const url = req.url ?? "/";
-      const method = req.method ?? "GET";
-      const pathname = url.split("?")[0];
+      try {
+        const url = req.url ?? "/";
+        const method = req.method ?? "GET";
+        const pathname = url.split("?")[0];
 
-      if (method === "GET" && pathname === "/health") {
-        handleHealth(res);
-        return;
-      }
+        if (method === "GET" && pathname === "/health") {
+          handleHealth(res);
+          return;
+        }
 
-      if (method === "GET" && pathname === "/v1/models") {
-        handleModels(res);
-        return;
-      }
+        if (method === "GET" && pathname === "/v1/models") {
+          handleModels(res);
+          return;
+        }
 
-      if (method === "POST" && pathname === "/v1/chat/completions") {
-        if (!apiKey.trim()) {
-          res.writeHead(401, { "Content-Type": "application/json" });
-          res.end(
-            JSON.stringify({
-              error: {
-                message: "OpenRouter API key required. Set OPENROUTER_API_KEY or openRouterApiKey in options.",
-                type: "authentication_error",
-              },
-            }),
-          );
+        if (method === "POST" && pathname === "/v1/route/explain") {
+          await handleRouteExplain(req, res, ctx);
+          return;
+        }
+
+        const isEmbeddings = pathname === "/v1/embeddings";
+        const format = Object.hasOwn(CLIENT_FORMATS, pathname)
+          ? CLIENT_FORMATS[pathname]
+          : undefined;
+        if (method === "POST" && (format || isEmbeddings)) {
+          // With other providers configured, OpenRouter models are skipped per attempt instead
+          if (!apiKey.trim() && !hasOtherProviders) {
+            sendError(res, format ?? OPENAI_FORMAT, {
+              status: 401,
+              message:
+                "OpenRouter API key required. Set OPENROUTER_API_KEY or openRouterApiKey in options.",
+              type: "authentication_error",
+            });
+            return;
+          }
+          if (format) await handleChatCompletions(req, res, ctx, format);
+          else await handleEmbeddings(req, res, ctx);
           return;
         }
-        await handleChatCompletions(req, res, apiKey);
-        return;
-      }
 
-      res.writeHead(404, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ error: { message: "Not found", type: "invalid_request" } }));
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "Not found", type: "invalid_request" } }));
+      } catch (err) {
+        // A handler bug must not leave the request hanging or crash the process
+        const message = err instanceof Error ? err.message : String(err);
+        if (res.headersSent) res.destroy();
+        else sendError(res, OPENAI_FORMAT, { status: 500, message, type: "internal_error" });
+      }
     });
 
     server.on("error", reject);
@@ -341,10 +1379,19 @@ export function startProxy(options: ProxyOptions = {}): Promise<ProxyHandle> {
       if (addr && typeof addr === "object") {
         activePort = addr.port;
       }
+      const stopCatalogRefresh = startCatalogRefresh(options.catalog ?? {}, catalog, (status) => {
+        catalog = status;
+        modelPricing = buildModelPricing();
+        options.onCatalogUpdate?.(status);
+      });
       resolve({
+        get catalog() {
+          return catalog;
+        },
         close: () =>
           new Promise<void>((closeResolve) => {
             activePort = 0;
+            stopCatalogRefresh();
             server.close(() => closeResolve());
           }),
       });
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { createResponsesStream, fromResponsesRequest } from "./responses.js";
+
+/** Feed chat completions SSE lines through the translator and parse what comes out. */
+async function translate(lines: string[]): Promise<{ event: string; data: any }[]> {
+  const stream = createResponsesStream("openai/gpt-5.2");
+  let out = "";
+  stream.on("data", (chunk: Buffer) => (out += chunk.toString()));
+  const done = new Promise((resolve) => stream.on("end", resolve));
+  for (const line of lines) stream.write(`${line}\n\n`);
+  stream.end();
+  await done;
+  return out
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return { event: eventLine.slice("event: ".length), data: JSON.parse(dataLine.slice(6)) };
+    });
+}
+
+const chunk = (data: Record<string, unknown>) => `data: ${JSON.stringify(data)}`;
+const delta = (d: Record<string, unknown>, finish_reason: string | null = null) =>
+  chunk({ id: "chatcmpl-1", choices: [{ index: 0, delta: d, finish_reason }] });
+
+describe("createResponsesStream", () => {
+  it("translates a text completion into the Responses event sequence", async () => {
+    const events = await translate([
+      delta({ role: "assistant", content: "Hel" }),
+      delta({ content: "lo" }),
+      delta({}, "stop"),
+      "data: [DONE]",
+    ]);
+
+    expect(events.map((e) => e.event)).toEqual([
+      "response.created",
+      "response.in_progress",
+      "response.output_item.added",
+      "response.content_part.added",
+      "response.output_text.delta",
+      "response.output_text.delta",
+      "response.output_text.done",
+      "response.content_part.done",
+      "response.output_item.done",
+      "response.completed",
+    ]);
+    expect(events.map((e) => e.data.sequence_number)).toEqual(events.map((_, i) => i));
+    const { response } = events.at(-1)!.data;
+    expect(response.status).toBe("completed");
+    expect(response.output[0].content[0].text).toBe("Hello");
+  });
+
+  it("collects function call arguments into a function_call item", async () => {
+    const events = await translate([
+      delta({
+        tool_calls: [{ index: 0, id: "call_1", function: { name: "lookup", arguments: '{"q":' } }],
+      }),
+      delta({ tool_calls: [{ index: 0, function: { arguments: '"x"}' } }] }),
+      delta({}, "tool_calls"),
+      "data: [DONE]",
+    ]);
+
+    const { response } = events.at(-1)!.data;
+    expect(response.output[0]).toMatchObject({
+      type: "function_call",
+      call_id: "call_1",
+      name: "lookup",
+      arguments: '{"q":"x"}',
+    });
+  });
+
+  it("ends a length-limited stream with response.incomplete", async () => {
+    const events = await translate([delta({ content: "Hi" }), delta({}, "length")]);
+
+    const last = events.at(-1)!;
+    expect(last.event).toBe("response.incomplete");
+    expect(last.data.response.incomplete_details).toEqual({ reason: "max_output_tokens" });
+  });
+
+  it("reports a truncated stream as response.failed", async () => {
+    const events = await translate([delta({ content: "Partial ans" })]);
+
+    expect(events.map((e) => e.event)).not.toContain("response.completed");
+    const last = events.at(-1)!;
+    expect(last.event).toBe("response.failed");
+    expect(last.data.response.status).toBe("failed");
+    expect(last.data.response.error.message).toBe(
+      "Upstream stream ended before the response was complete",
+    );
+  });
+
+  it("reports a stream with no events at all as response.failed", async () => {
+    const events = await translate([]);
+
+    expect(events.map((e) => e.event)).toEqual([
+      "response.created",
+      "response.in_progress",
+      "response.failed",
+    ]);
+  });
+
+  it("turns an upstream error chunk into response.failed", async () => {
+    const events = await translate([
+      delta({ content: "Hi" }),
+      chunk({ error: { code: 429, message: "Rate limited" } }),
+      "data: [DONE]",
+    ]);
+
+    const last = events.at(-1)!;
+    expect(last.event).toBe("response.failed");
+    expect(last.data.response.error).toEqual({
+      code: "rate_limit_exceeded",
+      message: "Rate limited",
+    });
+  });
+});
+
+describe("fromResponsesRequest", () => {
+  it("converts instructions, input and max_output_tokens to chat completions", () => {
+    const body = fromResponsesRequest({
+      model: "auto",
+      instructions: "Be brief.",
+      input: "Hi",
+      max_output_tokens: 128,
+    });
+
+    expect(body).toMatchObject({
+      model: "auto",
+      max_tokens: 128,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+    });
+  });
+});
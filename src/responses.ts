@@ -0,0 +1,503 @@
+/**
+ * OpenAI Responses API Translation
+ *
+ * Lets Responses API clients (newer OpenAI SDKs) use the proxy: POST
+ * /v1/responses input items and function tools are translated to chat
+ * completions, routed like any other request, and the output is translated
+ * back into response objects and the streaming event sequence:
+ *
+ *   response.created → response.in_progress →
+ *   (response.output_item.added → text or function call argument deltas →
+ *   response.output_item.done)* → response.completed | response.incomplete |
+ *   response.failed
+ *
+ * The proxy is stateless: previous_response_id and hosted tools (web
+ * search, file search, ...) are not supported.
+ */
+
+import { randomUUID } from "node:crypto";
+import { Transform, type TransformCallback } from "node:stream";
+import { SseParser, chunkError, parseSseJson } from "./sse.js";
+
+type InputPart = {
+  type: string;
+  text?: string;
+  image_url?: string;
+  detail?: string;
+  file_data?: string;
+  filename?: string;
+};
+
+type InputItem = {
+  type?: string;
+  role?: string;
+  content?: string | InputPart[];
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  output?: string | InputPart[];
+};
+
+type FunctionTool = {
+  type: string;
+  name?: string;
+  description?: string;
+  parameters?: unknown;
+  strict?: boolean;
+};
+
+type ChatToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+type OutputItem = Record<string, unknown> & { type: string; id: string };
+
+/** Convert an input content part to a chat completions content part. */
+function toContentPart(part: InputPart): Record<string, unknown> | undefined {
+  switch (part.type) {
+    case "input_text":
+    case "output_text":
+    case "text":
+      return { type: "text", text: part.text ?? "" };
+    case "input_image":
+      if (!part.image_url) return undefined;
+      return {
+        type: "image_url",
+        image_url: { url: part.image_url, ...(part.detail ? { detail: part.detail } : {}) },
+      };
+    case "input_file":
+      if (!part.file_data) return undefined;
+      return {
+        type: "file",
+        file: { filename: part.filename ?? "file", file_data: part.file_data },
+      };
+    default:
+      return undefined;
+  }
+}
+
+/** Content as chat completions expects it: plain text when there are no other parts. */
+function toContent(content: string | InputPart[] | undefined): unknown {
+  if (typeof content === "string") return content;
+  const parts = (content ?? [])
+    .map(toContentPart)
+    .filter((p): p is Record<string, unknown> => p !== undefined);
+  return parts.every((p) => p.type === "text") ? parts.map((p) => p.text).join("\n") : parts;
+}
+
+/** Convert Responses input items to chat completions messages. */
+function toChatMessages(items: InputItem[]): Record<string, unknown>[] {
+  const messages: Record<string, unknown>[] = [];
+  for (const item of items) {
+    const type = item.type ?? "message";
+    if (type === "message") {
+      const role = item.role === "developer" ? "system" : (item.role ?? "user");
+      messages.push({ role, content: toContent(item.content) });
+    } else if (type === "function_call") {
+      const call: ChatToolCall = {
+        id: item.call_id ?? "",
+        type: "function",
+        function: { name: item.name ?? "", arguments: item.arguments ?? "{}" },
+      };
+      // Parallel calls share one assistant turn
+      const last = messages.at(-1);
+      if (last?.role === "assistant" && Array.isArray(last.tool_calls)) {
+        last.tool_calls.push(call);
+      } else if (last?.role === "assistant" && last.tool_calls === undefined) {
+        last.tool_calls = [call];
+      } else {
+        messages.push({ role: "assistant", content: null, tool_calls: [call] });
+      }
+    } else if (type === "function_call_output") {
+      const output = typeof item.output === "string" ? item.output : toContent(item.output);
+      messages.push({
+        role: "tool",
+        tool_call_id: item.call_id ?? "",
+        content: typeof output === "string" ? output : JSON.stringify(output),
+      });
+    }
+    // Reasoning items and hosted tool calls have no chat completions equivalent
+  }
+  return messages;
+}
+
+/** Responses tool_choice → chat completions tool_choice. */
+function toToolChoice(choice: unknown): unknown {
+  if (typeof choice === "string") return choice;
+  const c = choice as { type?: string; name?: string } | undefined;
+  return c?.type === "function" ? { type: "function", function: { name: c.name } } : undefined;
+}
+
+/** Responses `text.format` → chat completions response_format. */
+function toResponseFormat(text: unknown): unknown {
+  const format = (text as { format?: Record<string, unknown> } | undefined)?.format;
+  if (format?.type === "json_object") return { type: "json_object" };
+  if (format?.type === "json_schema") {
+    const { name, schema, strict, description } = format;
+    return { type: "json_schema", json_schema: { name, schema, strict, description } };
+  }
+  return undefined;
+}
+
+/**
+ * Check that content is a string or an array of typed parts.
+ *
+ * @throws Error naming the first invalid value
+ */
+function validateContent(content: unknown, path: string): void {
+  if (typeof content === "string") return;
+  if (!Array.isArray(content)) {
+    throw new Error(`${path}: must be a string or an array of content parts`);
+  }
+  content.forEach((part: unknown, i) => {
+    if (typeof (part as InputPart | null)?.type !== "string") {
+      throw new Error(`${path}[${i}]: must be a content part object with a type`);
+    }
+  });
+}
+
+/**
+ * Check input items and tools, the parts of the body the translation reads.
+ *
+ * @throws Error naming the first invalid item
+ */
+function validateItems(items: unknown[], tools: unknown): void {
+  items.forEach((entry: unknown, i) => {
+    const item = entry as InputItem | null;
+    if (typeof item !== "object" || item === null) {
+      throw new Error(`input[${i}]: must be an input item object`);
+    }
+    const type = item.type ?? "message";
+    if (type === "message") validateContent(item.content ?? "", `input[${i}].content`);
+    if (type === "function_call_output" && item.output !== undefined) {
+      validateContent(item.output, `input[${i}].output`);
+    }
+  });
+  if (tools === undefined) return;
+  if (!Array.isArray(tools)) throw new Error("tools: must be an array");
+  tools.forEach((tool: unknown, i) => {
+    if (typeof (tool as FunctionTool | null)?.type !== "string") {
+      throw new Error(`tools[${i}]: must be a tool object with a type`);
+    }
+  });
+}
+
+/**
+ * Translate a Responses API request body into a chat completions body.
+ *
+ * @throws Error for bodies the proxy can't serve (no input, previous_response_id)
+ *   or malformed input items
+ */
+export function fromResponsesRequest(body: Record<string, unknown>): Record<string, unknown> {
+  if (body.previous_response_id) {
+    throw new Error("previous_response_id is not supported; send the full conversation as input");
+  }
+  const input = body.input;
+  const items: InputItem[] =
+    typeof input === "string"
+      ? [{ role: "user", content: input }]
+      : Array.isArray(input)
+        ? input
+        : [];
+  if (items.length === 0) {
+    throw new Error("input is required and must be a string or a non-empty array");
+  }
+  validateItems(items, body.tools);
+
+  const messages = toChatMessages(items);
+  if (typeof body.instructions === "string" && body.instructions) {
+    messages.unshift({ role: "system", content: body.instructions });
+  }
+
+  const out: Record<string, unknown> = { model: String(body.model ?? "auto"), messages };
+  if (body.max_output_tokens !== undefined) out.max_tokens = body.max_output_tokens;
+  for (const key of ["temperature", "top_p", "parallel_tool_calls", "user"]) {
+    if (body[key] !== undefined) out[key] = body[key];
+  }
+  if (body.stream === true) out.stream = true;
+  const tools = ((body.tools as FunctionTool[] | undefined) ?? []).filter(
+    (t) => t.type === "function",
+  );
+  if (tools.length > 0) {
+    out.tools = tools.map((t) => ({
+      type: "function",
+      function: {
+        name: t.name,
+        description: t.description,
+        parameters: t.parameters,
+        ...(t.strict !== undefined ? { strict: t.strict } : {}),
+      },
+    }));
+  }
+  const toolChoice = toToolChoice(body.tool_choice);
+  if (toolChoice !== undefined) out.tool_choice = toolChoice;
+  const responseFormat = toResponseFormat(body.text);
+  if (responseFormat !== undefined) out.response_format = responseFormat;
+  const effort = (body.reasoning as { effort?: string } | undefined)?.effort;
+  if (effort) out.reasoning = { effort };
+  return out;
+}
+
+/** Responses usage block from a chat completions usage block. */
+function toUsage(usage: unknown): Record<string, number> {
+  const u = (usage ?? {}) as { prompt_tokens?: number; completion_tokens?: number };
+  const input = u.prompt_tokens ?? 0;
+  const output = u.completion_tokens ?? 0;
+  return { input_tokens: input, output_tokens: output, total_tokens: input + output };
+}
+
+function responseId(completionId: unknown): string {
+  return `resp_${String(completionId ?? randomUUID()).replace(/^chatcmpl-/, "")}`;
+}
+
+function textItem(text: string): OutputItem {
+  return {
+    type: "message",
+    id: `msg_${randomUUID()}`,
+    status: "completed",
+    role: "assistant",
+    content: [{ type: "output_text", text, annotations: [] }],
+  };
+}
+
+function functionCallItem(callId: string, name: string, args: string): OutputItem {
+  return {
+    type: "function_call",
+    id: `fc_${randomUUID()}`,
+    call_id: callId,
+    name,
+    arguments: args,
+    status: "completed",
+  };
+}
+
+/** A response object; finish_reason "length" makes it incomplete. */
+function responseObject(
+  id: string,
+  model: string,
+  output: OutputItem[],
+  finishReason: string | undefined,
+  usage: unknown,
+): Record<string, unknown> {
+  const incomplete = finishReason === "length";
+  return {
+    id,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: incomplete ? "incomplete" : "completed",
+    model,
+    output,
+    incomplete_details: incomplete ? { reason: "max_output_tokens" } : null,
+    error: null,
+    usage: toUsage(usage),
+  };
+}
+
+/**
+ * Translate a non-streaming chat completions response into a response object.
+ *
+ * @param model - Model ID to report (the one that served the request)
+ */
+export function toResponsesObject(
+  completion: Record<string, unknown>,
+  model: string,
+): Record<string, unknown> {
+  const choice = ((completion.choices as unknown[]) ?? [])[0] as
+    | { message?: { content?: string | null; tool_calls?: ChatToolCall[] }; finish_reason?: string }
+    | undefined;
+  const output: OutputItem[] = [];
+  if (choice?.message?.content) output.push(textItem(choice.message.content));
+  for (const call of choice?.message?.tool_calls ?? []) {
+    output.push(functionCallItem(call.id, call.function.name, call.function.arguments));
+  }
+  return responseObject(
+    responseId(completion.id),
+    model,
+    output,
+    choice?.finish_reason,
+    completion.usage,
+  );
+}
+
+/**
+ * Create a stream converting chat completions SSE chunks into Responses API
+ * SSE events. An upstream error chunk, or a stream that ends without [DONE]
+ * or a finish_reason, ends it with response.failed.
+ *
+ * @param model - Model ID to report (the one that served the request)
+ */
+export function createResponsesStream(model: string): Transform {
+  const parser = new SseParser();
+  const decoder = new TextDecoder();
+  let sequence = 0;
+  let id: string | undefined;
+  let finished = false;
+  let finishReason: string | undefined;
+  let usage: unknown;
+  const output: OutputItem[] = [];
+  /** Output index of the open item, if any */
+  let openIndex: number | undefined;
+  /** chat completions tool call index → output index */
+  const callItems = new Map<number, number>();
+
+  const event = (type: string, data: Record<string, unknown>): string =>
+    `event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: sequence++, ...data })}\n\n`;
+
+  const start = (completionId: unknown): string => {
+    if (id) return "";
+    id = responseId(completionId);
+    const response = {
+      ...responseObject(id, model, [], undefined, undefined),
+      status: "in_progress",
+      usage: null,
+    };
+    return event("response.created", { response }) + event("response.in_progress", { response });
+  };
+
+  const closeItem = (): string => {
+    if (openIndex === undefined) return "";
+    const index = openIndex;
+    const item = output[index];
+    openIndex = undefined;
+    let out = "";
+    if (item.type === "message") {
+      const part = (item.content as { text: string }[])[0];
+      const ids = { item_id: item.id, output_index: index, content_index: 0 };
+      out += event("response.output_text.done", { ...ids, text: part.text });
+      out += event("response.content_part.done", { ...ids, part });
+    } else {
+      out += event("response.function_call_arguments.done", {
+        item_id: item.id,
+        output_index: index,
+        arguments: item.arguments,
+      });
+    }
+    item.status = "completed";
+    return out + event("response.output_item.done", { output_index: index, item });
+  };
+
+  const openItem = (item: OutputItem): string => {
+    let out = closeItem();
+    openIndex = output.push(item) - 1;
+    if (item.type === "message") {
+      out += event("response.output_item.added", {
+        output_index: openIndex,
+        item: { ...item, status: "in_progress", content: [] },
+      });
+      out += event("response.content_part.added", {
+        item_id: item.id,
+        output_index: openIndex,
+        content_index: 0,
+        part: { type: "output_text", text: "", annotations: [] },
+      });
+    } else {
+      out += event("response.output_item.added", {
+        output_index: openIndex,
+        item: { ...item, status: "in_progress" },
+      });
+    }
+    return out;
+  };
+
+  const finish = (): string => {
+    if (finished) return "";
+    finished = true;
+    const out = start(undefined) + closeItem();
+    const response = responseObject(id!, model, output, finishReason, usage);
+    const type = response.status === "incomplete" ? "response.incomplete" : "response.completed";
+    return out + event(type, { response });
+  };
+
+  const fail = (status: number, message: string): string => {
+    finished = true;
+    const response = {
+      ...responseObject(id!, model, output, undefined, usage),
+      status: "failed",
+      error: { code: status === 429 ? "rate_limit_exceeded" : "server_error", message },
+    };
+    return event("response.failed", { response });
+  };
+
+  const convert = (data: string): string => {
+    if (data === "[DONE]") return finish();
+    const chunk = parseSseJson({ data });
+    if (!chunk || finished) return "";
+    let out = start(chunk.id);
+    const error = chunkError(chunk);
+    if (error) return out + fail(error.status, error.message);
+    if (chunk.usage) usage = chunk.usage;
+
+    for (const choice of (chunk.choices as unknown[]) ?? []) {
+      const { delta, finish_reason } = choice as {
+        delta?: {
+          content?: string | null;
+          tool_calls?: {
+            index?: number;
+            id?: string;
+            function?: { name?: string; arguments?: string };
+          }[];
+        };
+        finish_reason?: string | null;
+      };
+      if (delta?.content) {
+        if (openIndex === undefined || output[openIndex].type !== "message") {
+          out += openItem({ ...textItem(""), status: "in_progress" });
+        }
+        const part = (output[openIndex!].content as { text: string }[])[0];
+        part.text += delta.content;
+        out += event("response.output_text.delta", {
+          item_id: output[openIndex!].id,
+          output_index: openIndex,
+          content_index: 0,
+          delta: delta.content,
+        });
+      }
+      for (const call of delta?.tool_calls ?? []) {
+        const callIndex = call.index ?? 0;
+        if (!callItems.has(callIndex)) {
+          const item = functionCallItem(
+            call.id ?? `call_${randomUUID()}`,
+            call.function?.name ?? "",
+            "",
+          );
+          out += openItem({ ...item, status: "in_progress" });
+          callItems.set(callIndex, openIndex!);
+        }
+        const args = call.function?.arguments;
+        if (args) {
+          const index = callItems.get(callIndex)!;
+          output[index].arguments = `${output[index].arguments as string}${args}`;
+          out += event("response.function_call_arguments.delta", {
+            item_id: output[index].id,
+            output_index: index,
+            delta: args,
+          });
+        }
+      }
+      if (finish_reason) finishReason = finish_reason;
+    }
+    return out;
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      const out = parser
+        .push(decoder.decode(chunk, { stream: true }))
+        .map((e) => convert(e.data))
+        .join("");
+      callback(null, out || undefined);
+    },
+    flush(callback: TransformCallback) {
+      let out = parser.flush().map((e) => convert(e.data)).join("");
+      // Without [DONE] or a finish_reason the response may be truncated
+      if (!finished) {
+        out += finishReason
+          ? finish()
+          : start(undefined) + fail(502, "Upstream stream ended before the response was complete");
+      }
+      callback(null, out || undefined);
+    },
+  });
+}
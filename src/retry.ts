@@ -91,6 +91,9 @@ export async function fetchWithRetry(
     } catch (err) {
       lastError = err instanceof Error ? err : new Error(String(err));
 
+      // The caller gave up (e.g. the client disconnected) — don't try again
+      if (init?.signal?.aborted) throw lastError;
+
       // Network errors are retryable
       if (attempt < cfg.maxRetries) {
         const delay = cfg.baseDelayMs * Math.pow(2, attempt);
@@ -13,6 +13,7 @@ export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
   version: "2.0",
 
   classifier: {
+    enabled: false, // opt-in: ambiguous prompts use ambiguousDefaultTier instead
     llmModel: "google/gemini-2.5-flash",
     llmMaxTokens: 10,
     llmTemperature: 0,
@@ -1036,6 +1037,14 @@ export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
     confidenceSteepness: 12,
     // Below this confidence → ambiguous (null tier)
     confidenceThreshold: 0.7,
+
+    // Multi-turn chats: the latest user turn dominates, history nudges
+    conversation: {
+      historyWeight: 0.3,
+      assistantWeight: 0.1,
+      historyTokenWeight: 0.1, // long agent sessions shouldn't always look "long"
+      toolRoundsForAgentic: 3,
+    },
   },
 
   // Auto (balanced) tier configs - Clawd-router OpenRouter smart routing
@@ -1058,6 +1067,86 @@ export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
     },
   },
 
+  // Eco tier configs - cheapest capable model per tier (clawd-router/eco)
+  ecoTiers: {
+    SIMPLE: {
+      primary: "google/gemini-2.5-flash-lite-preview",
+      fallback: ["openai/gpt-4o-mini", "deepseek/deepseek-chat"],
+    },
+    MEDIUM: {
+      primary: "deepseek/deepseek-chat",
+      fallback: ["google/gemini-2.5-flash-lite-preview", "openai/gpt-4o-mini"],
+    },
+    COMPLEX: {
+      primary: "google/gemini-2.5-flash",
+      fallback: ["deepseek/deepseek-chat", "openai/gpt-4o-mini"],
+    },
+    REASONING: {
+      primary: "deepseek/deepseek-r1",
+      fallback: ["openai/o3-mini", "google/gemini-2.5-flash"],
+    },
+  },
+
+  // Premium tier configs - best quality regardless of cost (clawd-router/premium)
+  premiumTiers: {
+    SIMPLE: {
+      primary: "anthropic/claude-haiku-4-5",
+      fallback: ["openai/gpt-4o", "google/gemini-2.5-flash"],
+    },
+    MEDIUM: {
+      primary: "anthropic/claude-sonnet-4-5",
+      fallback: ["openai/gpt-4o", "google/gemini-2.5-pro"],
+    },
+    COMPLEX: {
+      primary: "anthropic/claude-opus-4-5",
+      fallback: ["anthropic/claude-sonnet-4-5", "google/gemini-2.5-pro"],
+    },
+    REASONING: {
+      primary: "anthropic/claude-opus-4-5",
+      fallback: ["anthropic/claude-sonnet-4-5", "google/gemini-2.5-pro", "openai/o3-mini"],
+    },
+  },
+
+  // Agentic tier configs - models that keep going through multi-step tool use
+  agenticTiers: {
+    SIMPLE: {
+      primary: "anthropic/claude-haiku-4-5",
+      fallback: ["openai/gpt-4o-mini", "google/gemini-2.5-flash"],
+    },
+    MEDIUM: {
+      primary: "anthropic/claude-haiku-4-5",
+      fallback: ["google/gemini-2.5-flash", "openai/gpt-4o-mini"],
+    },
+    COMPLEX: {
+      primary: "anthropic/claude-sonnet-4-5",
+      fallback: ["google/gemini-2.5-pro", "openai/gpt-4o"],
+    },
+    REASONING: {
+      primary: "anthropic/claude-sonnet-4-5",
+      fallback: ["anthropic/claude-opus-4-5", "openai/o3-mini"],
+    },
+  },
+
+  // Free tier configs - zero-cost OpenRouter models (clawd-router/free)
+  freeTiers: {
+    SIMPLE: {
+      primary: "meta-llama/llama-3.3-70b-instruct:free",
+      fallback: ["deepseek/deepseek-r1:free"],
+    },
+    MEDIUM: {
+      primary: "meta-llama/llama-3.3-70b-instruct:free",
+      fallback: ["deepseek/deepseek-r1:free"],
+    },
+    COMPLEX: {
+      primary: "deepseek/deepseek-r1:free",
+      fallback: ["meta-llama/llama-3.3-70b-instruct:free"],
+    },
+    REASONING: {
+      primary: "deepseek/deepseek-r1:free",
+      fallback: ["meta-llama/llama-3.3-70b-instruct:free"],
+    },
+  },
+
   overrides: {
     maxTokensForceComplex: 100_000,
     structuredOutputMinTier: "MEDIUM",
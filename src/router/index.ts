@@ -2,28 +2,71 @@
  * Smart Router Entry Point
  *
  * Classifies requests and routes to the cheapest capable model.
- * 100% local — rules-based scoring handles all requests in <1ms.
- * Ambiguous cases default to configurable tier (MEDIUM by default).
+ * Rules-based scoring handles most requests locally in <1ms.
+ * Ambiguous cases default to a configurable tier (MEDIUM by default), or
+ * go to an LLM classifier first via routeWithClassifier().
  */
 
-import type { Tier, RoutingDecision, RoutingConfig } from "./types.js";
+import type {
+  Tier,
+  RoutingDecision,
+  RoutingConfig,
+  RoutingProfile,
+  ScoringResult,
+  ModelFilter,
+  ConversationHistory,
+} from "./types.js";
 import { classifyByRules } from "./rules.js";
-import { selectModel, type ModelPricing } from "./selector.js";
+import { estimateTokens, estimateHistoryTokens, type TokenEstimator } from "./tokens.js";
+import {
+  selectModel,
+  filterTierConfigs,
+  getFallbackChain,
+  type ModelPricing,
+} from "./selector.js";
+import type { LLMClassifier } from "./llm-classifier.js";
 
 export type RouterOptions = {
   config: RoutingConfig;
   modelPricing: Map<string, ModelPricing>;
-  routingProfile?: "free" | "eco" | "auto" | "premium";
+  routingProfile?: RoutingProfile;
+  /** Highest tier route() may pick, e.g. while a soft budget limit is exceeded */
+  maxTier?: Tier;
+  /** Only pick models this accepts (e.g. vision-capable ones for image input) */
+  modelFilter?: ModelFilter;
+  /** Earlier turns when `prompt` is the latest user turn of a chat */
+  history?: ConversationHistory;
+  /** Token counter (default: estimateTokens, a per-family BPE approximation) */
+  tokenEstimator?: TokenEstimator;
+};
+
+export type ClassifierRouterOptions = RouterOptions & {
+  /** Fallback classifier for ambiguous prompts (see createLLMClassifier) */
+  llmClassifier?: LLMClassifier;
+};
+
+const TIER_RANK: Record<Tier, number> = { SIMPLE: 0, MEDIUM: 1, COMPLEX: 2, REASONING: 3 };
+
+/** Lower a tier to maxTier when it's above it. */
+function capTier(tier: Tier, maxTier: Tier | undefined): Tier {
+  return maxTier && TIER_RANK[tier] > TIER_RANK[maxTier] ? maxTier : tier;
+}
+
+/** A routing decision together with the rule-based scoring behind it. */
+export type RouteExplanation = {
+  decision: RoutingDecision;
+  scoring: ScoringResult;
 };
 
 /**
- * Route a request to the cheapest capable model.
+ * Route a request to the cheapest capable model, using rules only.
  *
  * 1. Check overrides (large context, structured output)
- * 2. Run rule-based classifier (14 weighted dimensions, <1ms)
- * 3. If ambiguous, default to configurable tier (no external API calls)
- * 4. Select model for tier
- * 5. Return RoutingDecision with metadata
+ * 2. Run rule-based classifier (15 weighted dimensions, conversation-aware, <1ms)
+ * 3. If ambiguous, use the default tier (see routeWithClassifier for the LLM fallback)
+ * 4. Cap at maxTier (when provided)
+ * 5. Select model for tier
+ * 6. Return RoutingDecision with metadata
  */
 export function route(
   prompt: string,
@@ -31,21 +74,110 @@ export function route(
   maxOutputTokens: number,
   options: RouterOptions,
 ): RoutingDecision {
-  const { config, modelPricing } = options;
+  return explainRoute(prompt, systemPrompt, maxOutputTokens, options).decision;
+}
+
+/**
+ * Same as route(), but also returns the rule-based ScoringResult
+ * (per-dimension scores, signals) the decision was derived from.
+ */
+export function explainRoute(
+  prompt: string,
+  systemPrompt: string | undefined,
+  maxOutputTokens: number,
+  options: RouterOptions,
+): RouteExplanation {
+  const plan = planRoute(prompt, systemPrompt, maxOutputTokens, options);
+  return plan.forced ?? finishRoute(plan, undefined);
+}
+
+/**
+ * Same as route(), but ambiguous prompts go to options.llmClassifier (when
+ * provided) before falling back to the default tier. Only ambiguous prompts
+ * wait on the classifier.
+ */
+export async function routeWithClassifier(
+  prompt: string,
+  systemPrompt: string | undefined,
+  maxOutputTokens: number,
+  options: ClassifierRouterOptions,
+): Promise<RoutingDecision> {
+  const { decision } = await explainRouteWithClassifier(
+    prompt,
+    systemPrompt,
+    maxOutputTokens,
+    options,
+  );
+  return decision;
+}
+
+/** Same as routeWithClassifier(), but also returns the rule-based ScoringResult. */
+export async function explainRouteWithClassifier(
+  prompt: string,
+  systemPrompt: string | undefined,
+  maxOutputTokens: number,
+  options: ClassifierRouterOptions,
+): Promise<RouteExplanation> {
+  const plan = planRoute(prompt, systemPrompt, maxOutputTokens, options);
+  if (plan.forced) return plan.forced;
+  const { llmClassifier } = options;
+  const llmTier =
+    plan.scoring.tier === null && llmClassifier ? await llmClassifier(prompt) : undefined;
+  return finishRoute(plan, llmTier);
+}
+
+/** Everything derived before the tier is settled (see planRoute). */
+type RoutePlan = {
+  options: RouterOptions;
+  maxOutputTokens: number;
+  scoring: ScoringResult;
+  tierConfigs: Record<Tier, { primary: string; fallback: string[] }>;
+  hasStructuredOutput: boolean;
+  /** Reasoning suffix for the final tier (model filter, profile) */
+  suffix: (tier: Tier) => string;
+  inputTokensFor: (model: string) => number;
+  /** Set when an override already decided the route */
+  forced?: RouteExplanation;
+};
+
+/** Score the prompt, pick the tier table and apply the large-context override. */
+function planRoute(
+  prompt: string,
+  systemPrompt: string | undefined,
+  maxOutputTokens: number,
+  options: RouterOptions,
+): RoutePlan {
+  const { config, modelPricing, history } = options;
+  const estimator = options.tokenEstimator ?? estimateTokens;
 
-  // Estimate input tokens (~4 chars per token)
+  // Estimate input tokens; history counts toward cost and context
   const fullText = `${systemPrompt ?? ""} ${prompt}`;
-  const estimatedTokens = Math.ceil(fullText.length / 4);
+  const estimatedTokens = estimator(fullText);
+  const inputTokens = estimatedTokens + (history ? estimateHistoryTokens(history, estimator) : 0);
+  // Cost estimates use the selected model's tokenizer
+  const inputTokensFor = (model: string) =>
+    estimator(fullText, model) + (history ? estimateHistoryTokens(history, estimator, model) : 0);
 
   // --- Rule-based classification (runs first to get agenticScore) ---
-  const ruleResult = classifyByRules(prompt, systemPrompt, estimatedTokens, config.scoring);
+  const ruleResult = classifyByRules(
+    prompt,
+    systemPrompt,
+    estimatedTokens,
+    config.scoring,
+    history,
+    estimator,
+  );
 
   // --- Select tier configs based on routing profile ---
   const { routingProfile } = options;
   let tierConfigs: Record<Tier, { primary: string; fallback: string[] }>;
   let profileSuffix = "";
 
-  if (routingProfile === "eco" && config.ecoTiers) {
+  if (routingProfile === "free" && config.freeTiers) {
+    // Free profile: zero-cost models only
+    tierConfigs = config.freeTiers;
+    profileSuffix = " | free";
+  } else if (routingProfile === "eco" && config.ecoTiers) {
     // Eco profile: ultra cost-optimized models
     tierConfigs = config.ecoTiers;
     profileSuffix = " | eco";
@@ -66,66 +198,155 @@ export function route(
     profileSuffix = useAgenticTiers ? " | agentic" : "";
   }
 
+  // --- Restrict the tier table to models meeting the request's needs ---
+  const unfilteredTierConfigs = tierConfigs;
+  let filterFound = true;
+  if (options.modelFilter) {
+    const filtered = filterTierConfigs(tierConfigs, options.modelFilter.accepts);
+    if (filtered) {
+      tierConfigs = filtered;
+    } else {
+      filterFound = false;
+    }
+  }
+
+  // Reasoning note naming the requirement and the tier's models it ruled out
+  const filterSuffix = (tier: Tier): string => {
+    if (!options.modelFilter) return "";
+    const { reason, accepts } = options.modelFilter;
+    if (!filterFound) return ` | no model in tier table supports ${reason}`;
+    const dropped = getFallbackChain(tier, unfilteredTierConfigs).filter((m) => !accepts(m));
+    return dropped.length > 0
+      ? ` | requires ${reason} (dropped ${dropped.join(", ")})`
+      : ` | requires ${reason}`;
+  };
+
+  const plan: RoutePlan = {
+    options,
+    maxOutputTokens,
+    scoring: ruleResult,
+    tierConfigs,
+    // Structured output detection
+    hasStructuredOutput: systemPrompt ? /json|structured|schema/i.test(systemPrompt) : false,
+    suffix: (tier) => filterSuffix(tier) + profileSuffix,
+    inputTokensFor,
+  };
+
   // --- Override: large context → force COMPLEX ---
-  if (estimatedTokens > config.overrides.maxTokensForceComplex) {
-    return selectModel(
-      "COMPLEX",
+  if (inputTokens > config.overrides.maxTokensForceComplex) {
+    const tier = capTier("COMPLEX", options.maxTier);
+    const capSuffix = tier !== "COMPLEX" ? ` | capped at ${tier} (maxTier)` : "";
+    const decision = selectModel(
+      tier,
       0.95,
       "rules",
-      `Input exceeds ${config.overrides.maxTokensForceComplex} tokens${profileSuffix}`,
+      `Input exceeds ${config.overrides.maxTokensForceComplex} tokens${capSuffix}` +
+        plan.suffix(tier),
       tierConfigs,
       modelPricing,
-      estimatedTokens,
+      inputTokensFor(tierConfigs[tier].primary),
       maxOutputTokens,
       routingProfile,
     );
+    plan.forced = { decision, scoring: ruleResult };
   }
+  return plan;
+}
 
-  // Structured output detection
-  const hasStructuredOutput = systemPrompt ? /json|structured|schema/i.test(systemPrompt) : false;
+/**
+ * Settle the tier and select the model.
+ *
+ * @param llmTier - The classifier's answer for an ambiguous prompt: null when
+ *   it failed, undefined when none was asked
+ */
+function finishRoute(plan: RoutePlan, llmTier: Tier | null | undefined): RouteExplanation {
+  const { options, scoring: ruleResult, tierConfigs } = plan;
+  const { config } = options;
 
   let tier: Tier;
   let confidence: number;
-  const method: "rules" | "llm" = "rules";
+  let method: "rules" | "llm" = "rules";
   let reasoning = `score=${ruleResult.score.toFixed(2)} | ${ruleResult.signals.join(", ")}`;
 
   if (ruleResult.tier !== null) {
     tier = ruleResult.tier;
     confidence = ruleResult.confidence;
+  } else if (llmTier) {
+    tier = llmTier;
+    confidence = 0.75;
+    method = "llm";
+    reasoning += ` | ambiguous -> llm: ${tier}`;
   } else {
-    // Ambiguous — default to configurable tier (no external API call)
+    // Ambiguous — default to configurable tier
     tier = config.overrides.ambiguousDefaultTier;
     confidence = 0.5;
-    reasoning += ` | ambiguous -> default: ${tier}`;
+    reasoning +=
+      llmTier === null
+        ? ` | ambiguous -> llm failed, default: ${tier}`
+        : ` | ambiguous -> default: ${tier}`;
   }
 
   // Apply structured output minimum tier
-  if (hasStructuredOutput) {
-    const tierRank: Record<Tier, number> = { SIMPLE: 0, MEDIUM: 1, COMPLEX: 2, REASONING: 3 };
+  if (plan.hasStructuredOutput) {
     const minTier = config.overrides.structuredOutputMinTier;
-    if (tierRank[tier] < tierRank[minTier]) {
+    if (TIER_RANK[tier] < TIER_RANK[minTier]) {
       reasoning += ` | upgraded to ${minTier} (structured output)`;
       tier = minTier;
     }
   }
 
+  // Apply the tier cap last so it wins over upgrades
+  const capped = capTier(tier, options.maxTier);
+  if (capped !== tier) {
+    reasoning += ` | capped at ${capped} (maxTier)`;
+    tier = capped;
+  }
+
   // Add routing profile suffix to reasoning
-  reasoning += profileSuffix;
+  reasoning += plan.suffix(tier);
 
-  return selectModel(
+  const decision = selectModel(
     tier,
     confidence,
     method,
     reasoning,
     tierConfigs,
-    modelPricing,
-    estimatedTokens,
-    maxOutputTokens,
-    routingProfile,
+    options.modelPricing,
+    plan.inputTokensFor(tierConfigs[tier].primary),
+    plan.maxOutputTokens,
+    options.routingProfile,
   );
+  return { decision, scoring: ruleResult };
 }
 
-export { getFallbackChain, getFallbackChainFiltered, calculateModelCost } from "./selector.js";
+export {
+  getFallbackChain,
+  getFallbackChainFiltered,
+  filterChainByContext,
+  filterTierConfigs,
+  calculateModelCost,
+  BASELINE_MODEL_ID,
+} from "./selector.js";
 export { DEFAULT_ROUTING_CONFIG } from "./config.js";
-export type { RoutingDecision, Tier, RoutingConfig } from "./types.js";
+export { estimateTokens, estimateHistoryTokens, getTokenizerFamily } from "./tokens.js";
+export type { TokenEstimator, TokenizerFamily } from "./tokens.js";
+export {
+  resolveRoutingConfig,
+  mergeRoutingConfig,
+  validateTierModels,
+  RoutingConfigError,
+} from "./overrides.js";
+export { ROUTING_CONFIG_SCHEMA } from "./schema.js";
+export { createLLMClassifier, parseTierLabel } from "./llm-classifier.js";
+export type { LLMClassifier, LLMClassifierOptions } from "./llm-classifier.js";
+export type {
+  RoutingDecision,
+  Tier,
+  RoutingConfig,
+  RoutingProfile,
+  ScoringResult,
+  DimensionBreakdown,
+  ModelFilter,
+  ConversationHistory,
+} from "./types.js";
 export type { ModelPricing } from "./selector.js";
@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildModelPricing } from "../models.js";
+import {
+  DEFAULT_ROUTING_CONFIG,
+  createLLMClassifier,
+  explainRoute,
+  parseTierLabel,
+  route,
+  routeWithClassifier,
+  type LLMClassifierOptions,
+} from "./index.js";
+
+const AMBIGUOUS = "Write a short poem about autumn leaves";
+const CLEAR = "What is 2+2?";
+const CLASSIFIER = { ...DEFAULT_ROUTING_CONFIG.classifier, enabled: true, cacheTtlMs: 60_000 };
+const routerOptions = { config: DEFAULT_ROUTING_CONFIG, modelPricing: buildModelPricing() };
+
+type FetchFn = NonNullable<LLMClassifierOptions["fetchFn"]>;
+
+/** Fake chat completions endpoint replying with `reply`. */
+function fakeEndpoint(reply: string) {
+  return vi.fn<FetchFn>(async () =>
+    Response.json({ choices: [{ message: { role: "assistant", content: reply } }] }),
+  );
+}
+
+function classifier(fetchFn: FetchFn, options: Partial<LLMClassifierOptions> = {}) {
+  return createLLMClassifier(CLASSIFIER, {
+    apiBase: "http://classifier.test/v1",
+    apiKey: "test-key",
+    fetchFn,
+    ...options,
+  });
+}
+
+describe("route", () => {
+  it("stays synchronous and sends ambiguous prompts to the default tier", () => {
+    const decision = route(AMBIGUOUS, undefined, 4096, routerOptions);
+
+    expect(decision).toMatchObject({
+      tier: DEFAULT_ROUTING_CONFIG.overrides.ambiguousDefaultTier,
+      method: "rules",
+    });
+    expect(decision.reasoning).toContain("ambiguous -> default:");
+  });
+});
+
+describe("routeWithClassifier", () => {
+  it("asks the classifier about ambiguous prompts", async () => {
+    expect(explainRoute(AMBIGUOUS, undefined, 4096, routerOptions).scoring.tier).toBeNull();
+    const fetchFn = fakeEndpoint("COMPLEX");
+
+    const decision = await routeWithClassifier(AMBIGUOUS, undefined, 4096, {
+      ...routerOptions,
+      llmClassifier: classifier(fetchFn),
+    });
+
+    expect(decision).toMatchObject({ tier: "COMPLEX", method: "llm", confidence: 0.75 });
+    expect(decision.reasoning).toContain("ambiguous -> llm: COMPLEX");
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe("http://classifier.test/v1/chat/completions");
+    expect(JSON.parse(init!.body as string)).toMatchObject({ model: CLASSIFIER.llmModel });
+    expect(new Headers(init!.headers).get("authorization")).toBe("Bearer test-key");
+  });
+
+  it("doesn't call the classifier when the rules are confident", async () => {
+    const fetchFn = fakeEndpoint("REASONING");
+
+    const decision = await routeWithClassifier(CLEAR, undefined, 4096, {
+      ...routerOptions,
+      llmClassifier: classifier(fetchFn),
+    });
+
+    expect(decision).toMatchObject({ tier: "SIMPLE", method: "rules" });
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the default tier when the classifier fails", async () => {
+    const fetchFn = vi.fn<FetchFn>(async () => new Response("nope", { status: 401 }));
+
+    const decision = await routeWithClassifier(AMBIGUOUS, undefined, 4096, {
+      ...routerOptions,
+      llmClassifier: classifier(fetchFn),
+    });
+
+    expect(decision).toMatchObject({
+      tier: DEFAULT_ROUTING_CONFIG.overrides.ambiguousDefaultTier,
+      method: "rules",
+      confidence: 0.5,
+    });
+    expect(decision.reasoning).toContain("ambiguous -> llm failed, default:");
+  });
+});
+
+describe("createLLMClassifier", () => {
+  it("caches answers per prompt until cacheTtlMs passes", async () => {
+    let now = 0;
+    const fetchFn = fakeEndpoint("MEDIUM");
+    const classify = classifier(fetchFn, { now: () => now });
+
+    expect(await classify(AMBIGUOUS)).toBe("MEDIUM");
+    expect(await classify(AMBIGUOUS)).toBe("MEDIUM");
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+
+    now = CLASSIFIER.cacheTtlMs;
+    await classify(AMBIGUOUS);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("evicts the least recently used answer beyond cacheMaxEntries", async () => {
+    const fetchFn = fakeEndpoint("MEDIUM");
+    const classify = classifier(fetchFn, { cacheMaxEntries: 2 });
+
+    await classify("a");
+    await classify("b");
+    await classify("a");
+    await classify("c");
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+
+    await classify("a");
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+    await classify("b");
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+  });
+
+  it("returns null for a non-OK response or an unlabeled reply, without caching", async () => {
+    const rejected = vi.fn<FetchFn>(async () => new Response("nope", { status: 401 }));
+    expect(await classifier(rejected)(AMBIGUOUS)).toBeNull();
+
+    const unlabeled = fakeEndpoint("I'm not sure.");
+    const classify = classifier(unlabeled);
+    expect(await classify(AMBIGUOUS)).toBeNull();
+    expect(await classify(AMBIGUOUS)).toBeNull();
+    expect(unlabeled).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns null when the request throws", async () => {
+    const fetchFn = vi.fn<FetchFn>(async () => {
+      throw new TypeError("fetch failed");
+    });
+
+    expect(await classifier(fetchFn)(AMBIGUOUS)).toBeNull();
+  });
+
+  it("returns null when the endpoint doesn't answer within timeoutMs", async () => {
+    const fetchFn = vi.fn<FetchFn>(
+      (_url, init) =>
+        new Promise((_resolve, reject) => {
+          const signal = init!.signal!;
+          if (signal.aborted) reject(signal.reason);
+          signal.addEventListener("abort", () => reject(signal.reason));
+        }),
+    );
+
+    const started = Date.now();
+    expect(await classifier(fetchFn, { timeoutMs: 50 })(AMBIGUOUS)).toBeNull();
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
+
+describe("parseTierLabel", () => {
+  it("finds the first tier label in a reply", () => {
+    expect(parseTierLabel("**reasoning**")).toBe("REASONING");
+    expect(parseTierLabel("Probably Simple, maybe MEDIUM.")).toBe("SIMPLE");
+    expect(parseTierLabel("no idea")).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * LLM Fallback Classifier
+ *
+ * Asks a cheap model for a tier label when the rule-based classifier is
+ * ambiguous. Opt-in via RoutingConfig.classifier.enabled.
+ *
+ * Answers are cached by prompt hash for cacheTtlMs so repeated prompts
+ * never pay for a second classification call. The cache keeps the most
+ * recently used entries up to cacheMaxEntries.
+ */
+
+import { createHash } from "node:crypto";
+import type { Tier, ClassifierConfig } from "./types.js";
+import { fetchWithRetry } from "../retry.js";
+
+/** Returns a tier for the prompt, or null when classification failed. */
+export type LLMClassifier = (prompt: string) => Promise<Tier | null>;
+
+export type LLMClassifierOptions = {
+  /** OpenAI-compatible API base, e.g. "https://openrouter.ai/api/v1" */
+  apiBase: string;
+  apiKey?: string;
+  /** Fetch implementation (default: global fetch) */
+  fetchFn?: (url: string, init?: RequestInit) => Promise<Response>;
+  /** Clock used for cache expiry (default: Date.now) */
+  now?: () => number;
+  /** Request timeout in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Cached answers kept before the least recently used is evicted (default: 1000) */
+  cacheMaxEntries?: number;
+};
+
+const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+const SYSTEM_PROMPT = `Classify the user's request by the capability needed to answer it well.
+Reply with exactly one word:
+SIMPLE - greetings, lookups, short factual answers, translations
+MEDIUM - everyday writing, summaries, straightforward code edits
+COMPLEX - multi-part technical work, system design, large code changes
+REASONING - proofs, derivations, multi-step logic or math`;
+
+/**
+ * Extract a tier label from a model reply.
+ * Tolerates casing, punctuation, markdown and surrounding prose; when
+ * several labels appear the first one wins.
+ */
+export function parseTierLabel(text: string): Tier | null {
+  const match = text.toUpperCase().match(/\b(SIMPLE|MEDIUM|COMPLEX|REASONING)\b/);
+  return match ? (match[1] as Tier) : null;
+}
+
+/**
+ * Create an LLM classifier bound to a completion endpoint.
+ *
+ * @param config - Classifier settings from RoutingConfig
+ * @param options - Endpoint, credentials and injectable fetch/clock
+ */
+export function createLLMClassifier(
+  config: ClassifierConfig,
+  options: LLMClassifierOptions,
+): LLMClassifier {
+  const fetchFn = options.fetchFn ?? fetch;
+  const now = options.now ?? Date.now;
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const cacheMaxEntries = options.cacheMaxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+  const cache = new Map<string, { tier: Tier; expiresAt: number }>();
+
+  return async (prompt: string): Promise<Tier | null> => {
+    const truncated = prompt.slice(0, config.promptTruncationChars);
+    const key = createHash("sha256").update(`${config.llmModel}\n${truncated}`).digest("hex");
+
+    const cached = cache.get(key);
+    cache.delete(key);
+    if (cached && cached.expiresAt > now()) {
+      // Re-insert so Map order tracks recency
+      cache.set(key, cached);
+      return cached.tier;
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (options.apiKey) {
+      headers.Authorization = `Bearer ${options.apiKey}`;
+    }
+
+    try {
+      const response = await fetchWithRetry(
+        fetchFn,
+        `${options.apiBase}/chat/completions`,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            model: config.llmModel,
+            max_tokens: config.llmMaxTokens,
+            temperature: config.llmTemperature,
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              { role: "user", content: truncated },
+            ],
+          }),
+          signal: AbortSignal.timeout(timeoutMs),
+        },
+        { maxRetries: 1 },
+      );
+      if (!response.ok) return null;
+
+      const data = (await response.json()) as {
+        choices?: Array<{ message?: { content?: unknown } }>;
+      };
+      const content = data.choices?.[0]?.message?.content;
+      const tier = typeof content === "string" ? parseTierLabel(content) : null;
+      if (tier && config.cacheTtlMs > 0) {
+        cache.set(key, { tier, expiresAt: now() + config.cacheTtlMs });
+        while (cache.size > cacheMaxEntries) {
+          cache.delete(cache.keys().next().value as string);
+        }
+      }
+      return tier;
+    } catch {
+      return null;
+    }
+  };
+}
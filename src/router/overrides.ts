@@ -0,0 +1,145 @@
+/**
+ * Operator Routing Overrides
+ *
+ * Deep-merges the plugin config `routing` object onto a base RoutingConfig.
+ * Objects merge key by key; arrays (keyword lists, fallback chains) replace
+ * the default wholesale so operators can drop entries as well as add them.
+ */
+
+import type { RoutingConfig, Tier, TierConfig } from "./types.js";
+import { ROUTING_CONFIG_SCHEMA, validateSchema } from "./schema.js";
+
+const TIERS: Tier[] = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"];
+
+const TIER_TABLE_KEYS = ["tiers", "agenticTiers", "ecoTiers", "premiumTiers", "freeTiers"] as const;
+
+/** Raised when operator routing overrides fail validation. */
+export class RoutingConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid routing config:\n  - ${issues.join("\n  - ")}`);
+    this.name = "RoutingConfigError";
+    this.issues = issues;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    merged[key] = deepMerge(base[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Deep-merge overrides onto a base config without validation.
+ * The base config is never mutated.
+ */
+export function mergeRoutingConfig(
+  base: RoutingConfig,
+  overrides: Record<string, unknown>,
+): RoutingConfig {
+  return deepMerge(base, overrides) as RoutingConfig;
+}
+
+/**
+ * Check that every tier table in a config is complete and only names
+ * models the catalog knows about.
+ */
+export function validateTierModels(
+  config: RoutingConfig,
+  isKnownModel: (modelId: string) => boolean,
+): string[] {
+  const issues: string[] = [];
+
+  for (const key of TIER_TABLE_KEYS) {
+    const table = config[key] as Partial<Record<Tier, Partial<TierConfig>>> | undefined;
+    if (!table) continue;
+
+    for (const tier of TIERS) {
+      const entry = table[tier];
+      if (!entry?.primary) {
+        issues.push(`routing.${key}.${tier}: missing primary model`);
+        continue;
+      }
+      const models = [entry.primary, ...(entry.fallback ?? [])];
+      models.forEach((modelId, i) => {
+        if (!isKnownModel(modelId)) {
+          const field = i === 0 ? "primary" : `fallback[${i - 1}]`;
+          issues.push(`routing.${key}.${tier}.${field}: unknown model "${modelId}"`);
+        }
+      });
+    }
+  }
+
+  if (!isKnownModel(config.classifier.llmModel)) {
+    issues.push(`routing.classifier.llmModel: unknown model "${config.classifier.llmModel}"`);
+  }
+
+  const { ambiguousDefaultTier, structuredOutputMinTier } = config.overrides;
+  const { simpleMedium, mediumComplex, complexReasoning } = config.scoring.tierBoundaries;
+  if (!(simpleMedium <= mediumComplex && mediumComplex <= complexReasoning)) {
+    issues.push(
+      `routing.scoring.tierBoundaries: must be ordered simpleMedium <= mediumComplex <= complexReasoning ` +
+        `(got ${simpleMedium}, ${mediumComplex}, ${complexReasoning})`,
+    );
+  }
+  const { historyWeight, assistantWeight } = config.scoring.conversation;
+  if (historyWeight + assistantWeight > 1) {
+    issues.push(
+      `routing.scoring.conversation: historyWeight + assistantWeight must be <= 1 ` +
+        `(got ${historyWeight} + ${assistantWeight})`,
+    );
+  }
+  if (!TIERS.includes(ambiguousDefaultTier)) {
+    issues.push(`routing.overrides.ambiguousDefaultTier: unknown tier "${ambiguousDefaultTier}"`);
+  }
+  if (!TIERS.includes(structuredOutputMinTier)) {
+    issues.push(`routing.overrides.structuredOutputMinTier: unknown tier "${structuredOutputMinTier}"`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate operator overrides against the schema, merge them onto the base
+ * config, and check the result against the model catalog.
+ *
+ * @param base - Config to merge onto (usually DEFAULT_ROUTING_CONFIG)
+ * @param overrides - Raw `routing` value from plugin config (may be undefined)
+ * @param isKnownModel - Returns true for model IDs that can be routed to
+ *   (default: any model, for callers that check tier models once the
+ *   catalog is synced, as startProxy() does)
+ * @throws RoutingConfigError listing every problem found
+ */
+export function resolveRoutingConfig(
+  base: RoutingConfig,
+  overrides: unknown,
+  isKnownModel: (modelId: string) => boolean = () => true,
+): RoutingConfig {
+  if (overrides === undefined || overrides === null) {
+    return base;
+  }
+
+  const schemaIssues = validateSchema(overrides, ROUTING_CONFIG_SCHEMA, "routing");
+  if (schemaIssues.length > 0) {
+    throw new RoutingConfigError(schemaIssues);
+  }
+
+  const merged = mergeRoutingConfig(base, overrides as Record<string, unknown>);
+  const modelIssues = validateTierModels(merged, isKnownModel);
+  if (modelIssues.length > 0) {
+    throw new RoutingConfigError(modelIssues);
+  }
+
+  return merged;
+}
@@ -8,12 +8,20 @@
  * Handles 70-80% of requests in < 1ms with zero cost.
  */
 
-import type { Tier, ScoringResult, ScoringConfig } from "./types.js";
+import type {
+  Tier,
+  ScoringResult,
+  ScoringConfig,
+  DimensionBreakdown,
+  ConversationHistory,
+} from "./types.js";
+import { estimateTokens, estimateHistoryTokens, type TokenEstimator } from "./tokens.js";
 
-type DimensionScore = { name: string; score: number; signal: string | null };
+type DimensionScore = { name: string; score: number; signal: string | null; matches?: string[] };
 
 // ─── Dimension Scorers ───
-// Each returns a score in [-1, 1] and an optional signal string.
+// Each returns a score in [-1, 1], an optional signal string and the
+// keywords/patterns that matched (if any).
 
 function scoreTokenCount(
   estimatedTokens: number,
@@ -42,6 +50,7 @@ function scoreKeywordMatch(
       name,
       score: scores.high,
       signal: `${signalLabel} (${matches.slice(0, 3).join(", ")})`,
+      matches,
     };
   }
   if (matches.length >= thresholds.low) {
@@ -49,6 +58,7 @@ function scoreKeywordMatch(
       name,
       score: scores.low,
       signal: `${signalLabel} (${matches.slice(0, 3).join(", ")})`,
+      matches,
     };
   }
   return { name, score: scores.none, signal: null };
@@ -58,7 +68,12 @@ function scoreMultiStep(text: string): DimensionScore {
   const patterns = [/first.*then/i, /step \d/i, /\d\.\s/];
   const hits = patterns.filter((p) => p.test(text));
   if (hits.length > 0) {
-    return { name: "multiStepPatterns", score: 0.5, signal: "multi-step" };
+    return {
+      name: "multiStepPatterns",
+      score: 0.5,
+      signal: "multi-step",
+      matches: hits.map((p) => p.source),
+    };
   }
   return { name: "multiStepPatterns", score: 0, signal: null };
 }
@@ -84,17 +99,9 @@ function scoreAgenticTask(
   text: string,
   keywords: string[],
 ): { dimensionScore: DimensionScore; agenticScore: number } {
-  let matchCount = 0;
-  const signals: string[] = [];
-
-  for (const keyword of keywords) {
-    if (text.includes(keyword.toLowerCase())) {
-      matchCount++;
-      if (signals.length < 3) {
-        signals.push(keyword);
-      }
-    }
-  }
+  const matches = keywords.filter((kw) => text.includes(kw.toLowerCase()));
+  const matchCount = matches.length;
+  const signals = matches.slice(0, 3);
 
   // Threshold-based scoring (raised thresholds after keyword pruning)
   if (matchCount >= 4) {
@@ -103,6 +110,7 @@ function scoreAgenticTask(
         name: "agenticTask",
         score: 1.0,
         signal: `agentic (${signals.join(", ")})`,
+        matches,
       },
       agenticScore: 1.0,
     };
@@ -112,6 +120,7 @@ function scoreAgenticTask(
         name: "agenticTask",
         score: 0.6,
         signal: `agentic (${signals.join(", ")})`,
+        matches,
       },
       agenticScore: 0.6,
     };
@@ -121,6 +130,7 @@ function scoreAgenticTask(
         name: "agenticTask",
         score: 0.2,
         signal: `agentic-light (${signals.join(", ")})`,
+        matches,
       },
       agenticScore: 0.2,
     };
@@ -132,22 +142,24 @@ function scoreAgenticTask(
   };
 }
 
-// ─── Main Classifier ───
+// ─── Conversation History ───
 
-export function classifyByRules(
+/**
+ * Keyword and pattern dimensions (everything except tokenCount and
+ * agenticTask), scored on one piece of text.
+ *
+ * @param text - Lowercased text for most keyword dimensions
+ * @param userText - Lowercased user text for reasoning markers
+ * @param prompt - Original-case user text for question counting
+ */
+function scoreTextDimensions(
+  text: string,
+  userText: string,
   prompt: string,
-  systemPrompt: string | undefined,
-  estimatedTokens: number,
   config: ScoringConfig,
-): ScoringResult {
-  const text = `${systemPrompt ?? ""} ${prompt}`.toLowerCase();
-  // User prompt only — used for reasoning markers (system prompt shouldn't influence complexity)
-  const userText = prompt.toLowerCase();
-
-  // Score all 14 dimensions
-  const dimensions: DimensionScore[] = [
-    // Original 8 dimensions
-    scoreTokenCount(estimatedTokens, config.tokenCountThresholds),
+): DimensionScore[] {
+  return [
+    // Original 8 dimensions (tokenCount is scored by the caller)
     scoreKeywordMatch(
       text,
       config.codeKeywords,
@@ -242,42 +254,181 @@ export function classifyByRules(
       { none: 0, low: 0.5, high: 0.8 },
     ),
   ];
+}
+
+/**
+ * Blend the latest turn's dimension scores with scores from earlier user
+ * turns and prior assistant content. Each history part present takes its
+ * configured share; the latest turn keeps the remainder. Assistant text
+ * never feeds reasoningMarkers (models say "step by step" all the time).
+ */
+function blendHistory(
+  latest: DimensionScore[],
+  history: ConversationHistory,
+  config: ScoringConfig,
+): DimensionScore[] {
+  const { historyWeight, assistantWeight } = config.conversation;
+  /** `label` prefixes the part's matches so explanations show where they came from */
+  const parts: { dims: DimensionScore[]; weight: number; label: string; skip?: string }[] = [];
+
+  const priorUser = history.userTurns.join("\n");
+  if (priorUser.trim() && historyWeight > 0) {
+    const lower = priorUser.toLowerCase();
+    parts.push({
+      dims: scoreTextDimensions(lower, lower, priorUser, config),
+      weight: historyWeight,
+      label: "history",
+    });
+  }
+  const assistant = history.assistantTurns.join("\n");
+  if (assistant.trim() && assistantWeight > 0) {
+    const lower = assistant.toLowerCase();
+    parts.push({
+      dims: scoreTextDimensions(lower, lower, assistant, config),
+      weight: assistantWeight,
+      label: "assistant",
+      skip: "reasoningMarkers",
+    });
+  }
+  if (parts.length === 0) return latest;
+
+  return latest.map((d, i) => {
+    let latestWeight = 1;
+    let blended = 0;
+    const matches = [...(d.matches ?? [])];
+    for (const part of parts) {
+      if (part.skip === d.name) continue;
+      const dim = part.dims[i]!;
+      latestWeight -= part.weight;
+      blended += part.weight * dim.score;
+      if (dim.score !== 0) matches.push(...(dim.matches ?? []).map((m) => `${part.label}:${m}`));
+    }
+    const score = Math.max(0, latestWeight) * d.score + blended;
+    return { ...d, score, ...(score !== 0 && matches.length > 0 ? { matches } : {}) };
+  });
+}
+
+// ─── Main Classifier ───
+
+/**
+ * Score a request and map it to a tier.
+ *
+ * @param prompt - The latest user turn
+ * @param systemPrompt - System prompt, if any
+ * @param estimatedTokens - Tokens in the system prompt plus latest turn
+ * @param config - Scoring configuration
+ * @param history - Earlier turns of the conversation, weighted per config.conversation
+ * @param estimator - Token estimator for the history (default: estimateTokens)
+ */
+export function classifyByRules(
+  prompt: string,
+  systemPrompt: string | undefined,
+  estimatedTokens: number,
+  config: ScoringConfig,
+  history?: ConversationHistory,
+  estimator: TokenEstimator = estimateTokens,
+): ScoringResult {
+  const text = `${systemPrompt ?? ""} ${prompt}`.toLowerCase();
+  // User prompt only — used for reasoning markers (system prompt shouldn't influence complexity)
+  const userText = prompt.toLowerCase();
+
+  // History only counts for a fraction of its size toward tokenCount
+  const scoredTokens = history
+    ? Math.round(
+        estimatedTokens +
+          estimateHistoryTokens(history, estimator) * config.conversation.historyTokenWeight,
+      )
+    : estimatedTokens;
+
+  // Score all 15 dimensions
+  const latest = scoreTextDimensions(text, userText, prompt, config);
+  const dimensions: DimensionScore[] = [
+    scoreTokenCount(scoredTokens, config.tokenCountThresholds),
+    ...(history ? blendHistory(latest, history, config) : latest),
+  ];
 
-  // Score agentic task indicators
+  // Score agentic task indicators; completed tool-call rounds are a direct agentic signal
   const agenticResult = scoreAgenticTask(text, config.agenticTaskKeywords);
-  dimensions.push(agenticResult.dimensionScore);
-  const agenticScore = agenticResult.agenticScore;
+  const toolRounds = history?.toolRounds ?? 0;
+  const toolScore = Math.min(1, toolRounds / config.conversation.toolRoundsForAgentic);
+  if (toolScore > agenticResult.agenticScore) {
+    dimensions.push({
+      name: "agenticTask",
+      score: toolScore,
+      signal: `agentic (${toolRounds} tool round${toolRounds === 1 ? "" : "s"})`,
+      matches: agenticResult.dimensionScore.matches,
+    });
+  } else {
+    dimensions.push(agenticResult.dimensionScore);
+  }
+  const agenticScore = Math.max(agenticResult.agenticScore, toolScore);
 
   // Collect signals
   const signals = dimensions.filter((d) => d.signal !== null).map((d) => d.signal!);
 
-  // Compute weighted score
+  // Compute weighted score, keeping each dimension's contribution
   const weights = config.dimensionWeights;
+  const breakdown: DimensionBreakdown[] = dimensions.map((d) => {
+    const weight = weights[d.name] ?? 0;
+    return {
+      name: d.name,
+      score: d.score,
+      weight,
+      weighted: d.score * weight,
+      matches: d.matches ?? [],
+    };
+  });
   let weightedScore = 0;
-  for (const d of dimensions) {
-    const w = weights[d.name] ?? 0;
-    weightedScore += d.score * w;
+  for (const d of breakdown) {
+    weightedScore += d.weighted;
   }
 
+  const { simpleMedium, mediumComplex, complexReasoning } = config.tierBoundaries;
+  const boundaryDistances = {
+    simpleMedium: weightedScore - simpleMedium,
+    mediumComplex: weightedScore - mediumComplex,
+    complexReasoning: weightedScore - complexReasoning,
+  };
+
   // Count reasoning markers for override — only check USER prompt, not system prompt
   // This prevents system prompts with "step by step" from triggering REASONING for simple queries
   const reasoningMatches = config.reasoningKeywords.filter((kw) =>
     userText.includes(kw.toLowerCase()),
   );
 
+  const { tier, confidence } = scoreToTier(weightedScore, reasoningMatches.length, config);
+
+  return {
+    score: weightedScore,
+    tier,
+    confidence,
+    signals,
+    agenticScore,
+    dimensions: breakdown,
+    boundaryDistances,
+  };
+}
+
+/**
+ * Map a weighted score to a tier and calibrated confidence.
+ * Returns tier null when confidence falls below the ambiguity threshold.
+ *
+ * @param weightedScore - Sum of weighted dimension scores
+ * @param reasoningMarkerCount - Reasoning keywords found in the user prompt
+ * @param config - Boundaries, steepness and threshold to apply
+ */
+export function scoreToTier(
+  weightedScore: number,
+  reasoningMarkerCount: number,
+  config: Pick<ScoringConfig, "tierBoundaries" | "confidenceSteepness" | "confidenceThreshold">,
+): { tier: Tier | null; confidence: number } {
   // Direct reasoning override: 2+ reasoning markers = high confidence REASONING
-  if (reasoningMatches.length >= 2) {
+  if (reasoningMarkerCount >= 2) {
     const confidence = calibrateConfidence(
       Math.max(weightedScore, 0.3), // ensure positive for confidence calc
       config.confidenceSteepness,
     );
-    return {
-      score: weightedScore,
-      tier: "REASONING",
-      confidence: Math.max(confidence, 0.85),
-      signals,
-      agenticScore,
-    };
+    return { tier: "REASONING", confidence: Math.max(confidence, 0.85) };
   }
 
   // Map weighted score to tier using boundaries
@@ -307,10 +458,10 @@ export function classifyByRules(
 
   // If confidence is below threshold → ambiguous
   if (confidence < config.confidenceThreshold) {
-    return { score: weightedScore, tier: null, confidence, signals, agenticScore };
+    return { tier: null, confidence };
   }
 
-  return { score: weightedScore, tier, confidence, signals, agenticScore };
+  return { tier, confidence };
 }
 
 /**
@@ -0,0 +1,235 @@
+/**
+ * Routing Config JSON Schema
+ *
+ * Describes the `routing` object operators may set in the plugin config.
+ * Every field is optional — values are deep-merged onto DEFAULT_ROUTING_CONFIG.
+ * Mirrored in openclaw.plugin.json under configSchema.properties.routing.
+ *
+ * Includes a minimal validator for the subset of JSON Schema used here
+ * (type, properties, additionalProperties, required, enum, items, minimum,
+ * maximum, minItems) so we don't pull in a schema library for one object.
+ */
+
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  enum?: readonly string[];
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+};
+
+const TIER_NAMES = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"] as const;
+
+export const DIMENSION_NAMES = [
+  "tokenCount",
+  "codePresence",
+  "reasoningMarkers",
+  "technicalTerms",
+  "creativeMarkers",
+  "simpleIndicators",
+  "multiStepPatterns",
+  "questionComplexity",
+  "imperativeVerbs",
+  "constraintCount",
+  "outputFormat",
+  "referenceComplexity",
+  "negationComplexity",
+  "domainSpecificity",
+  "agenticTask",
+] as const;
+
+const keywordList = (description: string): JsonSchema => ({
+  type: "array",
+  description,
+  items: { type: "string" },
+});
+
+const tierConfigSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    primary: { type: "string", description: "Model ID tried first for this tier" },
+    fallback: {
+      type: "array",
+      description: "Model IDs tried in order when the primary fails",
+      items: { type: "string" },
+    },
+  },
+  additionalProperties: false,
+};
+
+const tierTableSchema = (description: string): JsonSchema => ({
+  type: "object",
+  description,
+  properties: Object.fromEntries(TIER_NAMES.map((t) => [t, tierConfigSchema])),
+  additionalProperties: false,
+});
+
+export const ROUTING_CONFIG_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Override default routing configuration",
+  properties: {
+    version: { type: "string" },
+    classifier: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean", description: "Ask llmModel for a tier when rules are ambiguous" },
+        llmModel: { type: "string" },
+        llmMaxTokens: { type: "integer", minimum: 1 },
+        llmTemperature: { type: "number", minimum: 0, maximum: 2 },
+        promptTruncationChars: { type: "integer", minimum: 1 },
+        cacheTtlMs: { type: "integer", minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    scoring: {
+      type: "object",
+      properties: {
+        tokenCountThresholds: {
+          type: "object",
+          properties: {
+            simple: { type: "integer", minimum: 0 },
+            complex: { type: "integer", minimum: 0 },
+          },
+          additionalProperties: false,
+        },
+        codeKeywords: keywordList("Replaces the default code keyword list"),
+        reasoningKeywords: keywordList("Replaces the default reasoning keyword list"),
+        simpleKeywords: keywordList("Replaces the default simple keyword list"),
+        technicalKeywords: keywordList("Replaces the default technical keyword list"),
+        creativeKeywords: keywordList("Replaces the default creative keyword list"),
+        imperativeVerbs: keywordList("Replaces the default imperative verb list"),
+        constraintIndicators: keywordList("Replaces the default constraint keyword list"),
+        outputFormatKeywords: keywordList("Replaces the default output format keyword list"),
+        referenceKeywords: keywordList("Replaces the default reference keyword list"),
+        negationKeywords: keywordList("Replaces the default negation keyword list"),
+        domainSpecificKeywords: keywordList("Replaces the default domain keyword list"),
+        agenticTaskKeywords: keywordList("Replaces the default agentic keyword list"),
+        dimensionWeights: {
+          type: "object",
+          description: "Per-dimension weights; unspecified dimensions keep their defaults",
+          properties: Object.fromEntries(DIMENSION_NAMES.map((d) => [d, { type: "number" }])),
+          additionalProperties: false,
+        },
+        tierBoundaries: {
+          type: "object",
+          properties: {
+            simpleMedium: { type: "number" },
+            mediumComplex: { type: "number" },
+            complexReasoning: { type: "number" },
+          },
+          additionalProperties: false,
+        },
+        confidenceSteepness: { type: "number", minimum: 0 },
+        confidenceThreshold: { type: "number", minimum: 0, maximum: 1 },
+        conversation: {
+          type: "object",
+          description: "How earlier turns of a conversation contribute to the score",
+          properties: {
+            historyWeight: { type: "number", minimum: 0, maximum: 1 },
+            assistantWeight: { type: "number", minimum: 0, maximum: 1 },
+            historyTokenWeight: { type: "number", minimum: 0, maximum: 1 },
+            toolRoundsForAgentic: { type: "integer", minimum: 1 },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    tiers: tierTableSchema("Auto (balanced) profile tier table"),
+    agenticTiers: tierTableSchema("Tier table used for agentic tasks"),
+    ecoTiers: tierTableSchema("Tier table for the eco profile"),
+    premiumTiers: tierTableSchema("Tier table for the premium profile"),
+    freeTiers: tierTableSchema("Tier table for the free profile"),
+    overrides: {
+      type: "object",
+      properties: {
+        maxTokensForceComplex: { type: "integer", minimum: 0 },
+        structuredOutputMinTier: { type: "string", enum: TIER_NAMES },
+        ambiguousDefaultTier: { type: "string", enum: TIER_NAMES },
+        agenticMode: { type: "boolean" },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+/**
+ * Validate a value against a schema.
+ * Returns a list of human-readable issues (empty when valid).
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string): string[] {
+  const issues: string[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push(`${path}: expected ${schema.type}, got ${typeOf(value)}`);
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    issues.push(`${path}: must be one of ${schema.enum.join(", ")} (got ${JSON.stringify(value)})`);
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      issues.push(`${path}: must be a finite number`);
+    }
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push(`${path}: must be >= ${schema.minimum} (got ${value})`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push(`${path}: must be <= ${schema.maximum} (got ${value})`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push(`${path}: must contain at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => {
+        issues.push(...validateSchema(item, schema.items!, `${path}[${i}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) issues.push(`${path}.${key}: is required`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const childPath = `${path}.${key}`;
+      const propSchema = properties[key];
+      if (propSchema) {
+        issues.push(...validateSchema(child, propSchema, childPath));
+      } else if (schema.additionalProperties === false) {
+        const allowed = Object.keys(properties);
+        issues.push(`${childPath}: unknown key "${key}" (allowed: ${allowed.join(", ")})`);
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(...validateSchema(child, schema.additionalProperties, childPath));
+      }
+    }
+  }
+
+  return issues;
+}
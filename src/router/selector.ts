@@ -5,14 +5,23 @@
  * Builds RoutingDecision metadata with cost estimates and savings.
  */
 
-import type { Tier, TierConfig, RoutingDecision } from "./types.js";
+import type {
+  Tier,
+  TierConfig,
+  RoutingDecision,
+  RoutingProfile,
+  ModelFilter,
+} from "./types.js";
+
+const TIER_ORDER: Tier[] = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"];
 
 export type ModelPricing = {
   inputPrice: number; // per 1M tokens
   outputPrice: number; // per 1M tokens
 };
 
-const BASELINE_MODEL_ID = "anthropic/claude-opus-4-5";
+/** Model whose price defines `baselineCost` and `savings`. */
+export const BASELINE_MODEL_ID = "anthropic/claude-opus-4-5";
 
 /**
  * Select the primary model for a tier and build the RoutingDecision.
@@ -26,7 +35,7 @@ export function selectModel(
   modelPricing: Map<string, ModelPricing>,
   estimatedInputTokens: number,
   maxOutputTokens: number,
-  routingProfile?: "free" | "eco" | "auto" | "premium",
+  routingProfile?: RoutingProfile,
 ): RoutingDecision {
   const tierConfig = tierConfigs[tier];
   const model = tierConfig.primary;
@@ -64,6 +73,7 @@ export function selectModel(
     costEstimate,
     baselineCost,
     savings,
+    fallbackChain: getFallbackChain(tier, tierConfigs),
   };
 }
 
@@ -84,7 +94,7 @@ export function calculateModelCost(
   modelPricing: Map<string, ModelPricing>,
   estimatedInputTokens: number,
   maxOutputTokens: number,
-  routingProfile?: "free" | "eco" | "auto" | "premium",
+  routingProfile?: RoutingProfile,
 ): { costEstimate: number; baselineCost: number; savings: number } {
   const pricing = modelPricing.get(model);
 
@@ -115,23 +125,48 @@ export function calculateModelCost(
 }
 
 /**
- * Get the fallback chain filtered by context length.
- * Only returns models that can handle the estimated total context.
+ * Get the fallback chain filtered by context length and, optionally, by
+ * capability. Only returns models that can handle the estimated total context.
  *
  * @param tier - The tier to get fallback chain for
  * @param tierConfigs - Tier configurations
- * @param estimatedTotalTokens - Estimated total context (input + output)
+ * @param estimatedTotalTokens - Estimated total context (input + output), or a function
+ *   giving it per model ID when tokenizers differ
  * @param getContextWindow - Function to get context window for a model ID
+ * @param modelFilter - Drops models that can't serve the request (ignored if it drops all)
  * @returns Filtered list of models that can handle the context
  */
 export function getFallbackChainFiltered(
   tier: Tier,
   tierConfigs: Record<Tier, TierConfig>,
-  estimatedTotalTokens: number,
+  estimatedTotalTokens: number | ((modelId: string) => number),
   getContextWindow: (modelId: string) => number | undefined,
+  modelFilter?: ModelFilter,
 ): string[] {
-  const fullChain = getFallbackChain(tier, tierConfigs);
+  const chain = getFallbackChain(tier, tierConfigs);
+  const capable = modelFilter ? chain.filter(modelFilter.accepts) : chain;
+  return filterChainByContext(
+    capable.length > 0 ? capable : chain,
+    estimatedTotalTokens,
+    getContextWindow,
+  );
+}
 
+/**
+ * Filter an ordered model chain (e.g. RoutingDecision.fallbackChain) by
+ * context length, keeping the original order.
+ *
+ * @param fullChain - Ordered model IDs to filter
+ * @param estimatedTotalTokens - Estimated total context (input + output), or a function
+ *   giving it per model ID when tokenizers differ
+ * @param getContextWindow - Function to get context window for a model ID
+ * @returns Models that can handle the context, or the full chain if none can
+ */
+export function filterChainByContext(
+  fullChain: string[],
+  estimatedTotalTokens: number | ((modelId: string) => number),
+  getContextWindow: (modelId: string) => number | undefined,
+): string[] {
   // Filter to models that can handle the context
   const filtered = fullChain.filter((modelId) => {
     const contextWindow = getContextWindow(modelId);
@@ -139,8 +174,12 @@ export function getFallbackChainFiltered(
       // Unknown model - include it (let API reject if needed)
       return true;
     }
+    const totalTokens =
+      typeof estimatedTotalTokens === "function"
+        ? estimatedTotalTokens(modelId)
+        : estimatedTotalTokens;
     // Add 10% buffer for safety
-    return contextWindow >= estimatedTotalTokens * 1.1;
+    return contextWindow >= totalTokens * 1.1;
   });
 
   // If all models filtered out, return the original chain
@@ -151,3 +190,26 @@ export function getFallbackChainFiltered(
 
   return filtered;
 }
+
+/**
+ * Restrict every tier of a tier table to models passing `accepts`, keeping
+ * chain order. A tier left empty borrows the chain of the nearest higher
+ * tier that still has a model (or the nearest lower one).
+ *
+ * @returns The filtered table, or undefined when no model in it passes
+ */
+export function filterTierConfigs(
+  tierConfigs: Record<Tier, TierConfig>,
+  accepts: (modelId: string) => boolean,
+): Record<Tier, TierConfig> | undefined {
+  const chains = TIER_ORDER.map((tier) => getFallbackChain(tier, tierConfigs).filter(accepts));
+  if (chains.every((chain) => chain.length === 0)) return undefined;
+
+  const filtered = {} as Record<Tier, TierConfig>;
+  TIER_ORDER.forEach((tier, i) => {
+    const candidates = [...chains.slice(i), ...chains.slice(0, i).reverse()];
+    const [primary, ...fallback] = candidates.find((chain) => chain.length > 0)!;
+    filtered[tier] = { primary: primary!, fallback };
+  });
+  return filtered;
+}
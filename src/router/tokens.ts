@@ -0,0 +1,198 @@
+/**
+ * Token Estimation
+ *
+ * Approximates how many tokens a model's tokenizer produces for a text,
+ * without bundling vocabularies. Text is split the way BPE pre-tokenizers
+ * split it (words, digit runs, symbol runs, whitespace) and each piece is
+ * costed with per-family rates: BPE vocabularies differ most on non-Latin
+ * scripts (CJK, Cyrillic, Arabic, Devanagari), digits and code symbols,
+ * which a flat chars/4 estimate gets badly wrong.
+ *
+ * The estimator is pluggable (RouterOptions.tokenEstimator,
+ * ProxyOptions.tokenEstimator) for callers with a real tokenizer.
+ */
+
+import type { ConversationHistory } from "./types.js";
+
+/**
+ * Count the tokens in `text`. `modelId` selects the tokenizer; when absent,
+ * a family-neutral estimate is returned (used for classification).
+ */
+export type TokenEstimator = (text: string, modelId?: string) => number;
+
+export type TokenizerFamily =
+  | "openai"
+  | "anthropic"
+  | "gemini"
+  | "llama"
+  | "deepseek"
+  | "qwen"
+  | "default";
+
+/** Per-family rates for the pieces a BPE pre-tokenizer produces. */
+type TokenizerProfile = {
+  /** Latin-script characters per token; short common words are one token */
+  latinCharsPerToken: number;
+  /** Digits per token (1 for tokenizers that split every digit) */
+  digitsPerToken: number;
+  /** ASCII punctuation/operator characters per token */
+  symbolsPerToken: number;
+  /** Han, Hiragana and Katakana */
+  cjkTokensPerChar: number;
+  hangulTokensPerChar: number;
+  /** Cyrillic, Greek, Arabic, Hebrew, Devanagari, Thai, ... */
+  otherTokensPerChar: number;
+};
+
+const PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  // o200k_base
+  openai: {
+    latinCharsPerToken: 6,
+    digitsPerToken: 3,
+    symbolsPerToken: 2,
+    cjkTokensPerChar: 0.75,
+    hangulTokensPerChar: 0.6,
+    otherTokensPerChar: 0.3,
+  },
+  anthropic: {
+    latinCharsPerToken: 5.5,
+    digitsPerToken: 3,
+    symbolsPerToken: 1.5,
+    cjkTokensPerChar: 1.1,
+    hangulTokensPerChar: 1,
+    otherTokensPerChar: 0.45,
+  },
+  // SentencePiece, 256k vocabulary
+  gemini: {
+    latinCharsPerToken: 6,
+    digitsPerToken: 1,
+    symbolsPerToken: 2,
+    cjkTokensPerChar: 0.7,
+    hangulTokensPerChar: 0.5,
+    otherTokensPerChar: 0.3,
+  },
+  llama: {
+    latinCharsPerToken: 6,
+    digitsPerToken: 3,
+    symbolsPerToken: 2,
+    cjkTokensPerChar: 0.9,
+    hangulTokensPerChar: 0.8,
+    otherTokensPerChar: 0.4,
+  },
+  deepseek: {
+    latinCharsPerToken: 6,
+    digitsPerToken: 1,
+    symbolsPerToken: 2,
+    cjkTokensPerChar: 0.6,
+    hangulTokensPerChar: 0.9,
+    otherTokensPerChar: 0.45,
+  },
+  qwen: {
+    latinCharsPerToken: 6,
+    digitsPerToken: 1,
+    symbolsPerToken: 2,
+    cjkTokensPerChar: 0.65,
+    hangulTokensPerChar: 0.7,
+    otherTokensPerChar: 0.4,
+  },
+  default: {
+    latinCharsPerToken: 5.5,
+    digitsPerToken: 2,
+    symbolsPerToken: 2,
+    cjkTokensPerChar: 0.9,
+    hangulTokensPerChar: 0.8,
+    otherTokensPerChar: 0.4,
+  },
+};
+
+/** Model ID prefix (before "/") → tokenizer family. */
+const FAMILY_BY_PROVIDER: Record<string, TokenizerFamily> = {
+  openai: "openai",
+  anthropic: "anthropic",
+  google: "gemini",
+  "meta-llama": "llama",
+  deepseek: "deepseek",
+  qwen: "qwen",
+};
+
+/** Unicode symbols and emoji usually cost several byte-level tokens each. */
+const UNICODE_SYMBOL_TOKENS = 2;
+
+// One pre-tokenizer piece: optional leading whitespace, then a letter run,
+// digit run or symbol run; or trailing whitespace on its own.
+const PIECE = /(\s*)(?:([\p{L}\p{M}]+)|(\p{N}+)|([^\s\p{L}\p{M}\p{N}]+))|\s+/gu;
+const LATIN_WORD = /^[\p{Script=Latin}\p{M}]+$/u;
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const HANGUL_CHAR = /\p{Script=Hangul}/u;
+const MARK_CHAR = /\p{M}/u;
+
+/**
+ * Tokenizer family for a model ID ("default" for unknown providers and
+ * router model IDs).
+ */
+export function getTokenizerFamily(modelId?: string): TokenizerFamily {
+  if (!modelId) return "default";
+  const provider = modelId.includes("/") ? modelId.slice(0, modelId.indexOf("/")) : "";
+  return FAMILY_BY_PROVIDER[provider] ?? "default";
+}
+
+/** Tokens for a run of letters (one word, or a run of unspaced CJK text). */
+function letterTokens(word: string, profile: TokenizerProfile): number {
+  if (LATIN_WORD.test(word)) {
+    return Math.max(1, Math.round(word.length / profile.latinCharsPerToken));
+  }
+  let tokens = 0;
+  for (const ch of word) {
+    if (CJK_CHAR.test(ch)) tokens += profile.cjkTokensPerChar;
+    else if (HANGUL_CHAR.test(ch)) tokens += profile.hangulTokensPerChar;
+    else if (!MARK_CHAR.test(ch)) tokens += profile.otherTokensPerChar;
+  }
+  return Math.max(1, tokens);
+}
+
+/** Tokens for a run of punctuation, operators or other symbols. */
+function symbolTokens(run: string, profile: TokenizerProfile): number {
+  let ascii = 0;
+  let tokens = 0;
+  for (const ch of run) {
+    if (ch.charCodeAt(0) < 0x80) ascii++;
+    else tokens += UNICODE_SYMBOL_TOKENS;
+  }
+  return tokens + Math.ceil(ascii / profile.symbolsPerToken);
+}
+
+/**
+ * Default TokenEstimator: BPE-style approximation using the model's
+ * tokenizer family.
+ */
+export function estimateTokens(text: string, modelId?: string): number {
+  if (!text) return 0;
+  const profile = PROFILES[getTokenizerFamily(modelId)];
+  let tokens = 0;
+  for (const [piece, space, letters, digits, symbols] of text.matchAll(PIECE)) {
+    // A single leading space merges into the next token; newlines and indentation don't
+    const leading = space ?? piece;
+    if (leading !== "" && leading !== " ") tokens += 1;
+    if (letters) tokens += letterTokens(letters, profile);
+    else if (digits) tokens += Math.ceil(digits.length / profile.digitsPerToken);
+    else if (symbols) tokens += symbolTokens(symbols, profile);
+  }
+  return Math.ceil(tokens);
+}
+
+/**
+ * Estimated tokens in the earlier turns of a conversation.
+ *
+ * @param estimator - Token estimator (default: estimateTokens)
+ * @param modelId - Model whose tokenizer to approximate
+ */
+export function estimateHistoryTokens(
+  history: ConversationHistory,
+  estimator: TokenEstimator = estimateTokens,
+  modelId?: string,
+): number {
+  return [...history.userTurns, ...history.assistantTurns, ...history.toolResults].reduce(
+    (sum, t) => sum + estimator(t, modelId),
+    0,
+  );
+}
@@ -10,12 +10,35 @@
 
 export type Tier = "SIMPLE" | "MEDIUM" | "COMPLEX" | "REASONING";
 
+/** Routing profile — selects which tier table route() picks models from. */
+export type RoutingProfile = "free" | "eco" | "auto" | "premium";
+
+/** How one scoring dimension contributed to the weighted score. */
+export type DimensionBreakdown = {
+  name: string;
+  score: number; // raw dimension score in [-1, 1]
+  weight: number; // from ScoringConfig.dimensionWeights (0 if unset)
+  weighted: number; // score * weight — contribution to ScoringResult.score
+  /**
+   * Keywords/patterns that fired (empty for non-keyword dimensions). Matches
+   * from earlier turns are prefixed "history:" (user) or "assistant:".
+   */
+  matches: string[];
+};
+
 export type ScoringResult = {
   score: number; // weighted float (roughly [-0.3, 0.4])
   tier: Tier | null; // null = ambiguous, needs fallback classifier
   confidence: number; // sigmoid-calibrated [0, 1]
   signals: string[];
   agenticScore?: number; // 0-1 agentic task score for auto-switching to agentic tiers
+  dimensions: DimensionBreakdown[];
+  /** score minus each tier boundary — positive means above the boundary */
+  boundaryDistances: {
+    simpleMedium: number;
+    mediumComplex: number;
+    complexReasoning: number;
+  };
 };
 
 export type RoutingDecision = {
@@ -27,6 +50,8 @@ export type RoutingDecision = {
   costEstimate: number;
   baselineCost: number;
   savings: number; // 0-1 percentage
+  /** [primary, ...fallbacks] from the tier table the model was chosen from */
+  fallbackChain: string[];
 };
 
 export type TierConfig = {
@@ -34,6 +59,16 @@ export type TierConfig = {
   fallback: string[];
 };
 
+/**
+ * Restricts which models route() may pick, e.g. to vision-capable models
+ * when the request carries images.
+ */
+export type ModelFilter = {
+  /** Short label for the reasoning string ("vision") */
+  reason: string;
+  accepts: (modelId: string) => boolean;
+};
+
 export type ScoringConfig = {
   tokenCountThresholds: { simple: number; complex: number };
   codeKeywords: string[];
@@ -59,9 +94,39 @@ export type ScoringConfig = {
   };
   confidenceSteepness: number;
   confidenceThreshold: number;
+  // How earlier turns of a conversation feed into the score
+  conversation: ConversationScoringConfig;
+};
+
+export type ConversationScoringConfig = {
+  /** Share (0-1) of each keyword dimension taken from earlier user turns */
+  historyWeight: number;
+  /** Share (0-1) taken from prior assistant content; the latest user turn gets the rest */
+  assistantWeight: number;
+  /** Fraction of history tokens counted toward the tokenCount dimension */
+  historyTokenWeight: number;
+  /** Tool-call rounds at which agenticScore reaches 1.0 */
+  toolRoundsForAgentic: number;
+};
+
+/**
+ * Earlier turns of a chat, kept apart from the latest user turn so they
+ * can be weighted separately (see ConversationScoringConfig).
+ */
+export type ConversationHistory = {
+  /** User turns before the latest one, oldest first */
+  userTurns: string[];
+  /** Assistant text and tool-call arguments, oldest first */
+  assistantTurns: string[];
+  /** Tool result content, oldest first */
+  toolResults: string[];
+  /** Assistant turns that called tools */
+  toolRounds: number;
 };
 
 export type ClassifierConfig = {
+  /** Ask llmModel for a tier when rules are ambiguous (default: false) */
+  enabled?: boolean;
   llmModel: string;
   llmMaxTokens: number;
   llmTemperature: number;
@@ -92,5 +157,7 @@ export type RoutingConfig = {
   ecoTiers?: Record<Tier, TierConfig>;
   /** Tier configs for premium profile - best quality (blockrun/premium) */
   premiumTiers?: Record<Tier, TierConfig>;
+  /** Tier configs for free profile - zero-cost models only (clawd-router/free) */
+  freeTiers?: Record<Tier, TierConfig>;
   overrides: OverridesConfig;
 };
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { SessionStore, sessionKey, type SessionEntry } from "./session.js";
+
+const entry = (model: string): SessionEntry => ({
+  model,
+  tier: "COMPLEX",
+  fallbackChain: [model],
+});
+
+describe("SessionStore", () => {
+  it("remembers a conversation until its TTL passes, restarting it on every write", () => {
+    let now = 0;
+    const store = new SessionStore({ ttlMs: 1000 }, () => now);
+    store.set("a", entry("anthropic/claude-sonnet-4.6"));
+
+    now = 900;
+    expect(store.get("a")?.model).toBe("anthropic/claude-sonnet-4.6");
+    store.set("a", entry("anthropic/claude-sonnet-4.6"));
+
+    now = 1800;
+    expect(store.get("a")).toBeDefined();
+    now = 2000;
+    expect(store.get("a")).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it("drops the least recently used conversation beyond maxEntries", () => {
+    const store = new SessionStore({ maxEntries: 2 });
+    store.set("a", entry("m1"));
+    store.set("b", entry("m2"));
+    store.get("a");
+    store.set("c", entry("m3"));
+
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("a")?.model).toBe("m1");
+    expect(store.get("c")?.model).toBe("m3");
+  });
+});
+
+describe("sessionKey", () => {
+  const system = { role: "system", content: "You are helpful." };
+  const first = { role: "user", content: "Design a sharded queue." };
+
+  it("keys a conversation by its first user turn, whatever follows", () => {
+    const turn1 = sessionKey(undefined, "auto", [system, first]);
+    const turn3 = sessionKey(undefined, "auto", [
+      system,
+      first,
+      { role: "assistant", content: "Here is a design..." },
+      { role: "user", content: "thanks" },
+    ]);
+
+    expect(turn1).toBeDefined();
+    expect(turn3).toBe(turn1);
+    expect(sessionKey(undefined, "auto", [system, { role: "user", content: "Other" }])).not.toBe(
+      turn1,
+    );
+  });
+
+  it("prefers the session header over the message prefix", () => {
+    expect(sessionKey("s1", "auto", [first])).toBe(sessionKey("s1", "auto", []));
+    expect(sessionKey("s1", "auto", [first])).not.toBe(sessionKey("s2", "auto", [first]));
+  });
+
+  it("keeps sessions apart across profiles and clients", () => {
+    const key = sessionKey("s1", "auto", [first], "cli");
+
+    expect(sessionKey("s1", "eco", [first], "cli")).not.toBe(key);
+    expect(sessionKey("s1", "auto", [first], "ide")).not.toBe(key);
+    expect(sessionKey("s1", "auto", [first])).not.toBe(key);
+    expect(sessionKey(undefined, "auto", [first], "cli")).not.toBe(
+      sessionKey(undefined, "auto", [first], "ide"),
+    );
+  });
+
+  it("returns undefined with neither a header nor a user turn", () => {
+    expect(sessionKey(undefined, "auto", [system])).toBeUndefined();
+  });
+});
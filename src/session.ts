@@ -0,0 +1,155 @@
+/**
+ * Session Affinity
+ *
+ * Remembers which model each conversation was routed to so later turns stay
+ * on it (prompt caching, consistent tone) unless a turn needs a strictly
+ * higher tier. Conversations are identified by the x-clawd-session header,
+ * or else by a hash of the message prefix (system prompt and first user
+ * turn), which stays the same as a chat grows. Either is scoped to the
+ * x-clawd-client header, so clients never share a session.
+ *
+ * Entries live in an in-memory LRU with a TTL; nothing is persisted.
+ */
+
+import { createHash } from "node:crypto";
+import type { RoutingProfile, Tier } from "./router/types.js";
+import { validateSchema, type JsonSchema } from "./router/schema.js";
+
+export type SessionConfig = {
+  /** Keep conversations on their model (default: true) */
+  enabled?: boolean;
+  /** Forget a conversation this long after its last turn (default: 30 min) */
+  ttlMs?: number;
+  /** Conversations remembered at once; least recently used are dropped (default: 1000) */
+  maxEntries?: number;
+};
+
+export type SessionEntry = {
+  model: string;
+  tier: Tier;
+  profile?: RoutingProfile;
+  /** Chain the model came from, reused for fallbacks while sticky */
+  fallbackChain: string[];
+};
+
+export const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+export const DEFAULT_SESSION_MAX_ENTRIES = 1000;
+
+/**
+ * JSON Schema for the plugin config `sessions` object.
+ * Mirrored in openclaw.plugin.json under configSchema.properties.sessions.
+ */
+export const SESSION_CONFIG_SCHEMA: JsonSchema = {
+  type: "object",
+  description: "Keep multi-turn conversations on the model their first turn was routed to",
+  properties: {
+    enabled: { type: "boolean" },
+    ttlMs: { type: "integer", minimum: 1000 },
+    maxEntries: { type: "integer", minimum: 1 },
+  },
+  additionalProperties: false,
+};
+
+/** Raised when the sessions config fails validation. */
+export class SessionConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid sessions config:\n  - ${issues.join("\n  - ")}`);
+    this.name = "SessionConfigError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a raw sessions config. Returns human-readable issues (empty when valid).
+ */
+export function validateSessionConfig(value: unknown): string[] {
+  return validateSchema(value, SESSION_CONFIG_SCHEMA, "sessions");
+}
+
+/**
+ * Validate the plugin config `sessions` value.
+ *
+ * @returns undefined when no sessions config is set (defaults apply)
+ * @throws SessionConfigError listing every problem found
+ */
+export function resolveSessionConfig(value: unknown): SessionConfig | undefined {
+  if (value === undefined || value === null) return undefined;
+  const issues = validateSessionConfig(value);
+  if (issues.length > 0) {
+    throw new SessionConfigError(issues);
+  }
+  return value as SessionConfig;
+}
+
+/**
+ * In-memory LRU of conversation → routed model, with a TTL that restarts
+ * on every write.
+ */
+export class SessionStore {
+  private readonly entries = new Map<string, { entry: SessionEntry; expiresAt: number }>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+
+  constructor(
+    config: SessionConfig = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.ttlMs = config.ttlMs ?? DEFAULT_SESSION_TTL_MS;
+    this.maxEntries = config.maxEntries ?? DEFAULT_SESSION_MAX_ENTRIES;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Look up a live session, marking it most recently used. */
+  get(key: string): SessionEntry | undefined {
+    const item = this.entries.get(key);
+    if (!item) return undefined;
+    this.entries.delete(key);
+    if (item.expiresAt <= this.now()) return undefined;
+    this.entries.set(key, item);
+    return item.entry;
+  }
+
+  /** Store a session, evicting the least recently used beyond maxEntries. */
+  set(key: string, entry: SessionEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expiresAt: this.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Build the session key for a request.
+ *
+ * @param sessionId - x-clawd-session header value, if sent
+ * @param requestedModel - Model ID the client asked for (sessions don't cross profiles)
+ * @param messages - Chat messages; everything up to the first user turn is hashed
+ * @param client - x-clawd-client header value, if sent (sessions don't cross clients)
+ * @returns undefined when there is neither a header nor a user turn to hash
+ */
+export function sessionKey(
+  sessionId: string | undefined,
+  requestedModel: string,
+  messages: unknown[],
+  client?: string,
+): string | undefined {
+  // JSON keeps the parts apart even when they contain ":"
+  const scope = JSON.stringify([client ?? null, requestedModel]);
+  if (sessionId) return `id:${scope}:${sessionId}`;
+
+  const firstUser = messages.findIndex((m) => (m as { role?: string })?.role === "user");
+  if (firstUser === -1) return undefined;
+  const prefix = messages.slice(0, firstUser + 1).map((m) => {
+    const { role, content } = m as { role?: string; content?: unknown };
+    return { role, content };
+  });
+  const hash = createHash("sha256").update(JSON.stringify(prefix)).digest("hex").slice(0, 32);
+  return `prefix:${scope}:${hash}`;
+}
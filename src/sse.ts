@@ -0,0 +1,276 @@
+/**
+ * Server-Sent Events Parsing
+ *
+ * Incremental parser for the `data:` event streams OpenAI-compatible APIs
+ * return when `stream: true`, a pass-through tap that watches the stream on
+ * its way to the client without altering a byte, a keepalive that fills
+ * idle gaps with SSE comments, and a gate that holds a stream back until
+ * its first content so failures before then can fall back to another model.
+ */
+
+import { Transform, type TransformCallback } from "node:stream";
+
+export type SseEvent = {
+  event?: string;
+  data: string;
+};
+
+/**
+ * Incremental SSE parser. Feed it chunks in arrival order; it returns the
+ * events completed by each chunk. Comment lines (": keepalive") are ignored.
+ */
+export class SseParser {
+  private buffer = "";
+  private eventName: string | undefined;
+  private dataLines: string[] = [];
+
+  push(chunk: string): SseEvent[] {
+    this.buffer += chunk;
+    const events: SseEvent[] = [];
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+
+      if (line === "") {
+        if (this.dataLines.length > 0) {
+          events.push({ event: this.eventName, data: this.dataLines.join("\n") });
+        }
+        this.eventName = undefined;
+        this.dataLines = [];
+      } else if (line.startsWith(":")) {
+        continue;
+      } else if (line.startsWith("data:")) {
+        this.dataLines.push(line.slice(5).replace(/^ /, ""));
+      } else if (line.startsWith("event:")) {
+        this.eventName = line.slice(6).trim();
+      }
+    }
+
+    return events;
+  }
+
+  /** Emit a trailing event that wasn't terminated by a blank line. */
+  flush(): SseEvent[] {
+    const events = this.push("\n\n");
+    this.buffer = "";
+    return events;
+  }
+}
+
+/**
+ * Parse the JSON payload of an SSE event.
+ * Returns undefined for "[DONE]" and non-JSON data.
+ */
+export function parseSseJson(event: SseEvent): Record<string, unknown> | undefined {
+  if (event.data === "[DONE]") return undefined;
+  try {
+    const parsed = JSON.parse(event.data) as unknown;
+    return typeof parsed === "object" && parsed !== null
+      ? (parsed as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create a pass-through stream that reports each SSE event it sees.
+ * Bytes are forwarded unchanged.
+ */
+export function createSseTap(onEvent: (event: SseEvent) => void): Transform {
+  const parser = new SseParser();
+  const decoder = new TextDecoder();
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      for (const event of parser.push(decoder.decode(chunk, { stream: true }))) {
+        onEvent(event);
+      }
+      callback(null, chunk);
+    },
+    flush(callback: TransformCallback) {
+      for (const event of parser.flush()) {
+        onEvent(event);
+      }
+      callback();
+    },
+  });
+}
+
+/**
+ * Create a pass-through stream that inserts an SSE comment (": keepalive")
+ * when nothing has been forwarded for an interval, so clients and
+ * intermediaries don't time out an idle stream. Comments only go between
+ * events, never inside a partially forwarded one.
+ */
+export function createKeepAlive(intervalMs: number): Transform {
+  let wroteSinceTick = false;
+  // Last bytes forwarded, to tell whether we're between events
+  let tail = "\n\n";
+
+  const keepAlive = new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      wroteSinceTick = true;
+      tail = (tail + chunk.toString("latin1")).slice(-4);
+      callback(null, chunk);
+    },
+    flush(callback: TransformCallback) {
+      clearInterval(timer);
+      callback();
+    },
+    destroy(err: Error | null, callback: (error: Error | null) => void) {
+      clearInterval(timer);
+      callback(err);
+    },
+  });
+
+  const timer = setInterval(() => {
+    const atBoundary = /(\r?\n\r?\n|\r\r)$/.test(tail);
+    if (!wroteSinceTick && atBoundary) keepAlive.push(": keepalive\n\n");
+    wroteSinceTick = false;
+  }, intervalMs);
+  timer.unref();
+
+  return keepAlive;
+}
+
+/**
+ * Output carried by a chat (or legacy) completions stream chunk: content,
+ * reasoning, tool call names and arguments, and completion text joined.
+ * Used to estimate the tokens of a stream that ended without usage.
+ */
+export function chunkOutputText(chunk: Record<string, unknown> | undefined): string {
+  let text = "";
+  for (const choice of (chunk?.choices as unknown[] | undefined) ?? []) {
+    const c = choice as {
+      delta?: {
+        content?: unknown;
+        reasoning?: unknown;
+        tool_calls?: { function?: { name?: unknown; arguments?: unknown } }[];
+      };
+      text?: unknown;
+    };
+    for (const part of [c.delta?.content, c.delta?.reasoning, c.text]) {
+      if (typeof part === "string") text += part;
+    }
+    for (const call of c.delta?.tool_calls ?? []) {
+      for (const part of [call.function?.name, call.function?.arguments]) {
+        if (typeof part === "string") text += part;
+      }
+    }
+  }
+  return text;
+}
+
+/**
+ * Error carried by a stream chunk (`data: {"error": ...}`), as sent by
+ * upstreams that fail after the response has started. The status comes
+ * from a numeric HTTP-range `code`, else 500.
+ */
+export function chunkError(
+  chunk: Record<string, unknown> | undefined,
+): { status: number; message: string } | undefined {
+  const error = chunk?.error as { message?: unknown; code?: unknown } | string | undefined;
+  if (!error) return undefined;
+  if (typeof error === "string") return { status: 500, message: error };
+  const { code, message } = error;
+  const status = typeof code === "number" && code >= 400 && code < 600 ? code : 500;
+  return { status, message: typeof message === "string" ? message : "Upstream stream error" };
+}
+
+/** Result of waiting for a stream's first content (see awaitFirstContent). */
+export type StreamStart =
+  | { ok: true; stream: ReadableStream<Uint8Array> }
+  | { ok: false; reason: string };
+
+/**
+ * Classify a chat (or legacy) completions stream event: "content" once it
+ * carries output or a finish reason, "error" for error payloads, else
+ * "pending" (role-only deltas, empty chunks, "[DONE]").
+ */
+function classifyEvent(event: SseEvent): "content" | "error" | "pending" {
+  const chunk = parseSseJson(event);
+  if (!chunk) return "pending";
+  if (chunk.error) return "error";
+  const finishReasons = ((chunk.choices as unknown[] | undefined) ?? []).map(
+    (choice) => (choice as { finish_reason?: unknown }).finish_reason,
+  );
+  if (finishReasons.includes("error")) return "error";
+  if (chunkOutputText(chunk) || finishReasons.some(Boolean)) return "content";
+  return "pending";
+}
+
+/** Describe an error event's payload for logs and error messages. */
+function describeError(event: SseEvent): string {
+  const error = parseSseJson(event)?.error as { message?: unknown } | string | undefined;
+  const message = typeof error === "object" ? error?.message : error;
+  return typeof message === "string" ? message : "error event";
+}
+
+/**
+ * Read an SSE body until its first content event, buffering what arrives.
+ * Fails (cancelling the body) if an error event arrives first, nothing
+ * arrives for `idleTimeoutMs`, or the stream ends or breaks before any
+ * content. On success, returns a stream that replays the buffered bytes
+ * and then the rest of the body.
+ */
+export async function awaitFirstContent(
+  body: ReadableStream<Uint8Array>,
+  idleTimeoutMs: number,
+): Promise<StreamStart> {
+  const reader = body.getReader();
+  const parser = new SseParser();
+  const decoder = new TextDecoder();
+  const buffered: Uint8Array[] = [];
+
+  const fail = async (reason: string): Promise<StreamStart> => {
+    await reader.cancel(reason).catch(() => {
+      // Already errored — nothing left to cancel
+    });
+    return { ok: false, reason };
+  };
+
+  for (;;) {
+    let timer: NodeJS.Timeout | undefined;
+    const idle = new Promise<"idle">((resolve) => {
+      timer = setTimeout(() => resolve("idle"), idleTimeoutMs);
+    });
+    let next: ReadableStreamReadResult<Uint8Array> | "idle";
+    try {
+      next = await Promise.race([reader.read(), idle]);
+    } catch (err) {
+      return fail(`stream broke before the first token: ${(err as Error).message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (next === "idle") return fail(`no data for ${idleTimeoutMs}ms before the first token`);
+    if (next.done) return fail("stream ended before the first token");
+
+    buffered.push(next.value);
+    for (const event of parser.push(decoder.decode(next.value, { stream: true }))) {
+      const kind = classifyEvent(event);
+      if (kind === "error") return fail(describeError(event));
+      if (kind === "content") {
+        return {
+          ok: true,
+          stream: new ReadableStream<Uint8Array>({
+            start(controller) {
+              for (const chunk of buffered) controller.enqueue(chunk);
+            },
+            async pull(controller) {
+              const { done, value } = await reader.read();
+              if (done) controller.close();
+              else controller.enqueue(value);
+            },
+            cancel(reason) {
+              return reader.cancel(reason);
+            },
+          }),
+        };
+      }
+    }
+  }
+}
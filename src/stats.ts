@@ -0,0 +1,135 @@
+/**
+ * Usage Statistics
+ *
+ * Summarizes the usage ledger over a time window: requests per tier and
+ * model, spend, savings versus the baseline model, fallback and error rates.
+ * Backs both the /stats chat command and `clawd-router stats`.
+ */
+
+import { readLedgerEntries, DEFAULT_LEDGER_DIR, type LedgerEntry } from "./ledger.js";
+import { BASELINE_MODEL_ID } from "./router/index.js";
+
+export type UsageStats = {
+  since: string; // ISO 8601
+  until: string; // ISO 8601
+  requests: number;
+  byTier: Record<string, number>; // "direct" for requests with an explicit model
+  byModel: Record<string, { requests: number; cost: number }>;
+  totalCost: number;
+  baselineCost: number;
+  savings: number; // baselineCost - totalCost, USD
+  savingsRate: number; // 0-1
+  fallbackRate: number; // share of requests that needed a fallback model
+  errorRate: number; // share of requests that ended with status >= 400
+  avgLatencyMs: number;
+};
+
+const WINDOW_UNITS: Record<string, number> = {
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 7 * 86_400_000,
+};
+
+/**
+ * Parse a window like "24h", "7d" or "2w" into milliseconds.
+ *
+ * @throws Error for anything else
+ */
+export function parseWindow(window: string): number {
+  const match = window.trim().toLowerCase().match(/^(\d+)\s*([hdw])$/);
+  if (!match) {
+    throw new Error(`Invalid window "${window}" (expected e.g. 24h, 7d, 2w)`);
+  }
+  return parseInt(match[1]!, 10) * WINDOW_UNITS[match[2]!]!;
+}
+
+/** Aggregate ledger entries into UsageStats. */
+export function computeStats(entries: LedgerEntry[], since: Date, until: Date): UsageStats {
+  const byTier: Record<string, number> = {};
+  const byModel: Record<string, { requests: number; cost: number }> = {};
+  let totalCost = 0;
+  let baselineCost = 0;
+  let fallbacks = 0;
+  let errors = 0;
+  let latency = 0;
+
+  for (const e of entries) {
+    const tier = e.tier ?? "direct";
+    byTier[tier] = (byTier[tier] ?? 0) + 1;
+    const model = (byModel[e.model] ??= { requests: 0, cost: 0 });
+    model.requests++;
+    model.cost += e.cost;
+    totalCost += e.cost;
+    baselineCost += e.baselineCost;
+    if (e.fallbacks.length > 0) fallbacks++;
+    if (e.status >= 400) errors++;
+    latency += e.latencyMs;
+  }
+
+  const requests = entries.length;
+  const savings = Math.max(0, baselineCost - totalCost);
+  return {
+    since: since.toISOString(),
+    until: until.toISOString(),
+    requests,
+    byTier,
+    byModel,
+    totalCost,
+    baselineCost,
+    savings,
+    savingsRate: baselineCost > 0 ? savings / baselineCost : 0,
+    fallbackRate: requests > 0 ? fallbacks / requests : 0,
+    errorRate: requests > 0 ? errors / requests : 0,
+    avgLatencyMs: requests > 0 ? latency / requests : 0,
+  };
+}
+
+/**
+ * Read the ledger and summarize the last `windowMs` milliseconds.
+ */
+export async function getUsageStats(
+  windowMs: number,
+  dir: string = DEFAULT_LEDGER_DIR,
+): Promise<UsageStats> {
+  const until = new Date();
+  const since = new Date(until.getTime() - windowMs);
+  const entries = await readLedgerEntries(since, until, dir);
+  return computeStats(entries, since, until);
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+const usd = (n: number) => `$${n.toFixed(n < 1 ? 4 : 2)}`;
+
+/** Render stats as plain text (used by /stats and the CLI). */
+export function formatStatsReport(stats: UsageStats, windowLabel: string): string {
+  if (stats.requests === 0) {
+    return `clawd-router: no requests in the last ${windowLabel}.`;
+  }
+
+  const lines: string[] = [];
+  lines.push(`clawd-router usage — last ${windowLabel}`);
+  lines.push(`Requests:   ${stats.requests}`);
+  lines.push(`Spend:      ${usd(stats.totalCost)}`);
+  lines.push(
+    `Savings:    ${usd(stats.savings)} (${pct(stats.savingsRate)}) vs ${BASELINE_MODEL_ID} ` +
+      `(${usd(stats.baselineCost)})`,
+  );
+  lines.push(`Fallbacks:  ${pct(stats.fallbackRate)}`);
+  lines.push(`Errors:     ${pct(stats.errorRate)}`);
+  lines.push(`Latency:    ${Math.round(stats.avgLatencyMs)} ms avg`);
+
+  lines.push("");
+  lines.push("By tier:");
+  for (const [tier, count] of Object.entries(stats.byTier).sort((a, b) => b[1] - a[1])) {
+    lines.push(`  ${tier.padEnd(10)} ${String(count).padStart(6)}  ${pct(count / stats.requests)}`);
+  }
+
+  lines.push("");
+  lines.push("By model:");
+  const models = Object.entries(stats.byModel).sort((a, b) => b[1].requests - a[1].requests);
+  for (const [model, { requests, cost }] of models) {
+    lines.push(`  ${model.padEnd(40)} ${String(requests).padStart(6)}  ${usd(cost)}`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,304 @@
+/**
+ * Rule Classifier Weight Tuning
+ *
+ * Coordinate descent over dimensionWeights, tierBoundaries,
+ * confidenceSteepness and confidenceThreshold, maximizing
+ *
+ *   accuracy - costPenalty * (routed cost / Opus baseline cost)
+ *
+ * on a labeled dataset. Accuracy is a step function of the parameters, so
+ * the search also follows a small logistic margin term (how far each score
+ * sits inside its expected tier's band) to move across flat regions.
+ *
+ * Raw dimension scores don't depend on any of the tuned parameters, so each
+ * prompt is scored once and candidate configs only re-aggregate — thousands
+ * of candidates take well under a second.
+ *
+ * The search models the rule classifier plus ambiguousDefaultTier; the
+ * route()-level overrides (large context, structured output, agentic
+ * tiers) are not simulated, so re-run `eval` on the result for exact numbers.
+ */
+
+import { classifyByRules, scoreToTier } from "./router/rules.js";
+import { calculateModelCost, estimateTokens } from "./router/index.js";
+import type { ModelPricing } from "./router/index.js";
+import type { RoutingConfig, ScoringConfig, Tier, TierConfig } from "./router/types.js";
+import { DIMENSION_NAMES } from "./router/schema.js";
+import { TIERS, type EvalCase } from "./eval.js";
+
+export type TuneOptions = {
+  /** Weight of relative cost in the objective (default: 0.1) */
+  costPenalty?: number;
+  /** Maximum coordinate-descent passes (default: 50) */
+  maxIterations?: number;
+};
+
+export type TuneScore = {
+  accuracy: number;
+  costRatio: number; // routed cost / baseline cost
+  objective: number; // accuracy - costPenalty * costRatio
+};
+
+/** Weight of the smooth margin term relative to the objective. */
+const MARGIN_WEIGHT = 0.05;
+/** Logistic slope for the margin term (score units are roughly [-0.3, 0.6]). */
+const MARGIN_SLOPE = 20;
+
+export type TuneResult = {
+  before: TuneScore;
+  after: TuneScore;
+  iterations: number;
+  /** Ready-to-use plugin config fragment: {"routing": {"scoring": {...}}} */
+  overrides: { routing: { scoring: Partial<ScoringConfig> } };
+};
+
+type TunableParams = Pick<
+  ScoringConfig,
+  "dimensionWeights" | "tierBoundaries" | "confidenceSteepness" | "confidenceThreshold"
+>;
+
+type PreparedCase = {
+  expected: Tier;
+  rawScores: number[]; // aligned with DIMENSION_NAMES
+  reasoningMarkers: number;
+  cost: Record<Tier, number>;
+  baseline: number;
+};
+
+type Param = {
+  get: (p: TunableParams) => number;
+  set: (p: TunableParams, value: number) => void;
+  step: number;
+  minStep: number;
+  min: number;
+  max: number;
+};
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+function prepareCases(
+  cases: EvalCase[],
+  config: RoutingConfig,
+  tierConfigs: Record<Tier, TierConfig>,
+  modelPricing: Map<string, ModelPricing>,
+): PreparedCase[] {
+  return cases.map((c) => {
+    // Same estimate route() classifies with
+    const estimatedTokens = estimateTokens(`${c.systemPrompt ?? ""} ${c.prompt}`);
+    const maxTokens = c.maxTokens ?? 4096;
+    const result = classifyByRules(c.prompt, c.systemPrompt, estimatedTokens, config.scoring);
+    const byName = new Map(result.dimensions.map((d) => [d.name, d]));
+
+    const cost = {} as Record<Tier, number>;
+    let baseline = 0;
+    for (const tier of TIERS) {
+      const modelCost = calculateModelCost(
+        tierConfigs[tier].primary,
+        modelPricing,
+        estimatedTokens,
+        maxTokens,
+      );
+      cost[tier] = modelCost.costEstimate;
+      baseline = modelCost.baselineCost;
+    }
+
+    return {
+      expected: c.expectedTier,
+      rawScores: DIMENSION_NAMES.map((name) => byName.get(name)?.score ?? 0),
+      reasoningMarkers: byName.get("reasoningMarkers")?.matches.length ?? 0,
+      cost,
+      baseline,
+    };
+  });
+}
+
+/** Signed distance of a score inside the expected tier's band (negative = outside). */
+function bandMargin(score: number, tier: Tier, boundaries: TunableParams["tierBoundaries"]): number {
+  const { simpleMedium, mediumComplex, complexReasoning } = boundaries;
+  switch (tier) {
+    case "SIMPLE":
+      return simpleMedium - score;
+    case "MEDIUM":
+      return Math.min(score - simpleMedium, mediumComplex - score);
+    case "COMPLEX":
+      return Math.min(score - mediumComplex, complexReasoning - score);
+    case "REASONING":
+      return score - complexReasoning;
+  }
+}
+
+function scoreParams(
+  cases: PreparedCase[],
+  params: TunableParams,
+  defaultTier: Tier,
+  costPenalty: number,
+): TuneScore & { search: number } {
+  const weights = DIMENSION_NAMES.map((name) => params.dimensionWeights[name] ?? 0);
+  let correct = 0;
+  let routedCost = 0;
+  let baselineCost = 0;
+  let margin = 0;
+
+  for (const c of cases) {
+    let score = 0;
+    for (let i = 0; i < weights.length; i++) {
+      score += c.rawScores[i]! * weights[i]!;
+    }
+    const tier = scoreToTier(score, c.reasoningMarkers, params).tier ?? defaultTier;
+    if (tier === c.expected) correct++;
+    routedCost += c.cost[tier];
+    baselineCost += c.baseline;
+    margin += 1 / (1 + Math.exp(-MARGIN_SLOPE * bandMargin(score, c.expected, params.tierBoundaries)));
+  }
+
+  const n = Math.max(1, cases.length);
+  const accuracy = cases.length > 0 ? correct / cases.length : 0;
+  const costRatio = baselineCost > 0 ? routedCost / baselineCost : 0;
+  const objective = accuracy - costPenalty * costRatio;
+  return { accuracy, costRatio, objective, search: objective + MARGIN_WEIGHT * (margin / n) };
+}
+
+const toScore = ({ accuracy, costRatio, objective }: TuneScore): TuneScore => ({
+  accuracy,
+  costRatio,
+  objective,
+});
+
+function buildParams(): Param[] {
+  const params: Param[] = DIMENSION_NAMES.map((name) => ({
+    get: (p) => p.dimensionWeights[name] ?? 0,
+    set: (p, v) => {
+      p.dimensionWeights[name] = v;
+    },
+    step: 0.04,
+    minStep: 0.005,
+    min: 0,
+    max: 1,
+  }));
+
+  // Ordering between boundaries is enforced separately (boundariesOrdered)
+  for (const key of ["simpleMedium", "mediumComplex", "complexReasoning"] as const) {
+    params.push({
+      get: (p) => p.tierBoundaries[key],
+      set: (p, v) => {
+        p.tierBoundaries[key] = v;
+      },
+      step: 0.08,
+      minStep: 0.005,
+      min: -1,
+      max: 1.5,
+    });
+  }
+
+  params.push({
+    get: (p) => p.confidenceSteepness,
+    set: (p, v) => {
+      p.confidenceSteepness = v;
+    },
+    step: 4,
+    minStep: 0.25,
+    min: 1,
+    max: 50,
+  });
+  params.push({
+    get: (p) => p.confidenceThreshold,
+    set: (p, v) => {
+      p.confidenceThreshold = v;
+    },
+    step: 0.08,
+    minStep: 0.005,
+    min: 0.5,
+    max: 0.95,
+  });
+
+  return params;
+}
+
+function boundariesOrdered(p: TunableParams): boolean {
+  const { simpleMedium, mediumComplex, complexReasoning } = p.tierBoundaries;
+  return simpleMedium <= mediumComplex && mediumComplex <= complexReasoning;
+}
+
+/**
+ * Search for scoring parameters that maximize accuracy under a cost penalty.
+ *
+ * @param cases - Labeled prompts (see parseEvalDataset)
+ * @param config - Starting routing config; its tuned fields are the initial point
+ * @param tierConfigs - Tier table used to price each predicted tier
+ * @param modelPricing - Model pricing map (see buildModelPricing)
+ */
+export function tuneScoring(
+  cases: EvalCase[],
+  config: RoutingConfig,
+  tierConfigs: Record<Tier, TierConfig>,
+  modelPricing: Map<string, ModelPricing>,
+  options: TuneOptions = {},
+): TuneResult {
+  const costPenalty = options.costPenalty ?? 0.1;
+  const maxIterations = options.maxIterations ?? 50;
+  const defaultTier = config.overrides.ambiguousDefaultTier;
+  const prepared = prepareCases(cases, config, tierConfigs, modelPricing);
+
+  const current: TunableParams = {
+    dimensionWeights: { ...config.scoring.dimensionWeights },
+    tierBoundaries: { ...config.scoring.tierBoundaries },
+    confidenceSteepness: config.scoring.confidenceSteepness,
+    confidenceThreshold: config.scoring.confidenceThreshold,
+  };
+  const before = scoreParams(prepared, current, defaultTier, costPenalty);
+  let best = before;
+
+  const params = buildParams();
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    iterations++;
+    let improved = false;
+
+    for (const param of params) {
+      const original = param.get(current);
+      let bestValue = original;
+
+      for (const candidate of [original + param.step, original - param.step]) {
+        if (candidate < param.min || candidate > param.max) continue;
+        param.set(current, candidate);
+        if (!boundariesOrdered(current)) continue;
+        const score = scoreParams(prepared, current, defaultTier, costPenalty);
+        if (score.search > best.search + 1e-9) {
+          best = score;
+          bestValue = candidate;
+          improved = true;
+        }
+      }
+      param.set(current, bestValue);
+    }
+
+    // No coordinate helped at this resolution — refine, or stop once steps are tiny
+    if (!improved) {
+      for (const param of params) param.step /= 2;
+      if (params.every((p) => p.step < p.minStep)) break;
+    }
+  }
+
+  return {
+    before: toScore(before),
+    after: toScore(best),
+    iterations,
+    overrides: {
+      routing: {
+        scoring: {
+          dimensionWeights: Object.fromEntries(
+            Object.entries(current.dimensionWeights).map(([k, v]) => [k, round(v)]),
+          ),
+          tierBoundaries: {
+            simpleMedium: round(current.tierBoundaries.simpleMedium),
+            mediumComplex: round(current.tierBoundaries.mediumComplex),
+            complexReasoning: round(current.tierBoundaries.complexReasoning),
+          },
+          confidenceSteepness: round(current.confidenceSteepness),
+          confidenceThreshold: round(current.confidenceThreshold),
+        },
+      },
+    },
+  };
+}
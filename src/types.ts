@@ -121,7 +121,7 @@ export type OpenClawPluginApi = {
   registerHook: (events: string | string[], handler: unknown, opts?: unknown) => void;
   registerHttpRoute: (params: { path: string; handler: unknown }) => void;
   registerService: (service: OpenClawPluginService) => void;
-  registerCommand: (command: unknown) => void;
+  registerCommand: (command: OpenClawPluginCommandDefinition) => void;
   resolvePath: (input: string) => string;
   on: (hookName: string, handler: unknown, opts?: unknown) => void;
 };